@@ -0,0 +1,76 @@
+import Component from "../../src/component";
+import type { TransformData } from "./transform";
+
+/**
+ * The transform of an entity relative to the world, computed by the `TransformPropagationSystem` from the `Transform` of the entity and
+ * the `GlobalTransform` of its parent. It is added to entities which have a `Transform` but no `GlobalTransform`, and should not be changed
+ * directly.
+ */
+export default class GlobalTransform
+  extends Component
+  implements TransformData
+{
+  public x = 0;
+  public y = 0;
+  public z = 0;
+  public rotation = 0;
+  public scaleX = 1;
+  public scaleY = 1;
+  public scaleZ = 1;
+
+  constructor() {
+    super("globalTransform");
+  }
+
+  /**
+   * Computes the global transform by applying a local transform on top of the global transform of a parent. The translation is scaled and
+   * rotated by the parent, rotations are added and scales are multiplied.
+   * @param parent The global transform of the parent, or undefined if there is no parent.
+   * @param transform The local transform.
+   * @returns The global transform.
+   */
+  public compute(
+    parent: GlobalTransform | undefined,
+    transform: TransformData
+  ): this {
+    if (!parent) {
+      Object.assign(this, {
+        x: transform.x,
+        y: transform.y,
+        z: transform.z,
+        rotation: transform.rotation,
+        scaleX: transform.scaleX,
+        scaleY: transform.scaleY,
+        scaleZ: transform.scaleZ,
+      });
+      return this;
+    }
+
+    /**
+     * The translation, scaled by the parent.
+     */
+    const x = transform.x * parent.scaleX;
+    /**
+     * The translation, scaled by the parent.
+     */
+    const y = transform.y * parent.scaleY;
+    /**
+     * The cosine of the rotation of the parent.
+     */
+    const cos = Math.cos(parent.rotation);
+    /**
+     * The sine of the rotation of the parent.
+     */
+    const sin = Math.sin(parent.rotation);
+
+    this.x = parent.x + x * cos - y * sin;
+    this.y = parent.y + x * sin + y * cos;
+    this.z = parent.z + transform.z * parent.scaleZ;
+    this.rotation = parent.rotation + transform.rotation;
+    this.scaleX = parent.scaleX * transform.scaleX;
+    this.scaleY = parent.scaleY * transform.scaleY;
+    this.scaleZ = parent.scaleZ * transform.scaleZ;
+
+    return this;
+  }
+}
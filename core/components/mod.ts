@@ -2,7 +2,9 @@
  * @module core/components Contains simple components for the core package.
  */
 
+import GlobalTransform from "./globalTransform";
 import Position from "./position";
+import Transform, { type TransformData } from "./transform";
 import Velocity from "./velocity";
 
-export { Position, Velocity };
+export { GlobalTransform, Position, Transform, Velocity, type TransformData };
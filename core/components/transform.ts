@@ -0,0 +1,64 @@
+import Component from "../../src/component";
+
+/**
+ * The fields of a transform: a translation, a rotation around the z axis, and a scale. The z axis is optional for 2D, where it can be used
+ * for layering.
+ */
+export interface TransformData {
+  /**
+   * The x-coordinate of the translation.
+   */
+  x: number;
+  /**
+   * The y-coordinate of the translation.
+   */
+  y: number;
+  /**
+   * The z-coordinate of the translation.
+   */
+  z: number;
+  /**
+   * The rotation around the z axis, in radians.
+   */
+  rotation: number;
+  /**
+   * The scale along the x axis.
+   */
+  scaleX: number;
+  /**
+   * The scale along the y axis.
+   */
+  scaleY: number;
+  /**
+   * The scale along the z axis.
+   */
+  scaleZ: number;
+}
+
+/**
+ * The transform of an entity relative to its parent, or to the world if it has no parent. The `TransformPropagationSystem` computes the
+ * `GlobalTransform` of the entity from it.
+ *
+ * Changes to a transform are only propagated once it is marked as changed, e.g. with `ArchetypeTable.markChanged` or by replacing it.
+ */
+export default class Transform extends Component implements TransformData {
+  public x: number;
+  public y: number;
+  public z: number;
+  public rotation: number;
+  public scaleX: number;
+  public scaleY: number;
+  public scaleZ: number;
+
+  constructor(data: Partial<TransformData> = {}) {
+    super("transform");
+
+    this.x = data.x ?? 0;
+    this.y = data.y ?? 0;
+    this.z = data.z ?? 0;
+    this.rotation = data.rotation ?? 0;
+    this.scaleX = data.scaleX ?? 1;
+    this.scaleY = data.scaleY ?? 1;
+    this.scaleZ = data.scaleZ ?? 1;
+  }
+}
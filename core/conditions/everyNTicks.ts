@@ -0,0 +1,21 @@
+import type { RunCondition } from "../../src/runCondition";
+
+/**
+ * A run condition which is met once every `n` times it is checked, starting with the first time, e.g. to throttle an expensive system.
+ *
+ * Every system or set which uses the condition should get its own instance, since it counts how often it was checked.
+ * @param n How many times the condition is checked for every time it is met.
+ * @returns The run condition.
+ */
+export default function everyNTicks(n: number): RunCondition {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid number of ticks: ${n.toString()}`);
+  }
+
+  /**
+   * How many times the condition was checked.
+   */
+  let ticks = 0;
+
+  return () => ticks++ % n === 0;
+}
@@ -0,0 +1,16 @@
+import type { RunCondition } from "../../src/runCondition";
+import type { ResourceConstructor } from "../../src/resources";
+import type State from "../resources/state";
+
+/**
+ * A run condition which is met while a state has a value. It is not met if the state does not exist.
+ * @param state The class of the state.
+ * @param value The value of the state.
+ * @returns The run condition.
+ */
+export default function inState<T>(
+  state: ResourceConstructor<State<T>>,
+  value: T
+): RunCondition {
+  return resources => resources.get(state)?.current === value;
+}
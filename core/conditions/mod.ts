@@ -0,0 +1,10 @@
+/**
+ * @module core/conditions Contains run conditions for the core package.
+ */
+
+import everyNTicks from "./everyNTicks";
+import inState from "./inState";
+import onStateEnter from "./onStateEnter";
+import resourceExists from "./resourceExists";
+
+export { everyNTicks, inState, onStateEnter, resourceExists };
@@ -0,0 +1,36 @@
+import type { RunCondition } from "../../src/runCondition";
+import type { ResourceConstructor } from "../../src/resources";
+import type State from "../resources/state";
+
+/**
+ * A run condition which is met the first time it is checked after a state has changed to a value, including when the state starts with it.
+ *
+ * Every system or set which uses the condition should get its own instance, since it remembers the value it last saw.
+ * @param state The class of the state.
+ * @param value The value of the state.
+ * @returns The run condition.
+ */
+export default function onStateEnter<T>(
+  state: ResourceConstructor<State<T>>,
+  value: T
+): RunCondition {
+  /**
+   * Whether the state had the value when the condition was last checked.
+   */
+  let entered = false;
+
+  return resources => {
+    /**
+     * Whether the state has the value now.
+     */
+    const isIn = resources.get(state)?.current === value;
+    /**
+     * Whether the state changed to the value since the condition was last checked.
+     */
+    const justEntered = isIn && !entered;
+
+    entered = isIn;
+
+    return justEntered;
+  };
+}
@@ -0,0 +1,13 @@
+import type { RunCondition } from "../../src/runCondition";
+import type { ResourceConstructor } from "../../src/resources";
+
+/**
+ * A run condition which is met when a resource exists.
+ * @param resource The class of the resource.
+ * @returns The run condition.
+ */
+export default function resourceExists(
+  resource: ResourceConstructor
+): RunCondition {
+  return resources => resources.has(resource);
+}
@@ -1,11 +1,33 @@
+import FixedUpdateSchedule from "../schedules/fixedUpdate";
+import PostUpdateSchedule from "../schedules/postUpdate";
+import PreUpdateSchedule from "../schedules/preUpdate";
+import ShutdownSchedule from "../schedules/shutdown";
 import StartupSchedule from "../schedules/startup";
 import UpdateSchedule from "../schedules/update";
 
+/**
+ * The schedule that runs every frame, before the update schedule.
+ */
+export const PRE_UPDATE_SCHEDULE: PreUpdateSchedule = new PreUpdateSchedule();
 /**
  * The schedule that runs every update.
  */
 export const UPDATE_SCHEDULE: UpdateSchedule = new UpdateSchedule();
+/**
+ * The schedule that runs every frame, after the update schedule.
+ */
+export const POST_UPDATE_SCHEDULE: PostUpdateSchedule =
+  new PostUpdateSchedule();
 /**
  * The schedule that runs once at startup.
  */
 export const STARTUP_SCHEDULE: StartupSchedule = new StartupSchedule();
+/**
+ * The schedule that runs once when the app stops running.
+ */
+export const SHUTDOWN_SCHEDULE: ShutdownSchedule = new ShutdownSchedule();
+/**
+ * The schedule that runs at a fixed rate of 60 steps per second, alongside the update schedule.
+ */
+export const FIXED_UPDATE_SCHEDULE: FixedUpdateSchedule =
+  new FixedUpdateSchedule();
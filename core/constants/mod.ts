@@ -2,6 +2,20 @@
  * @module core/constants Contains constants for the core package.
  */
 
-import { STARTUP_SCHEDULE, UPDATE_SCHEDULE } from "./constants";
+import {
+  FIXED_UPDATE_SCHEDULE,
+  POST_UPDATE_SCHEDULE,
+  PRE_UPDATE_SCHEDULE,
+  SHUTDOWN_SCHEDULE,
+  STARTUP_SCHEDULE,
+  UPDATE_SCHEDULE,
+} from "./constants";
 
-export { STARTUP_SCHEDULE, UPDATE_SCHEDULE };
+export {
+  FIXED_UPDATE_SCHEDULE,
+  POST_UPDATE_SCHEDULE,
+  PRE_UPDATE_SCHEDULE,
+  SHUTDOWN_SCHEDULE,
+  STARTUP_SCHEDULE,
+  UPDATE_SCHEDULE,
+};
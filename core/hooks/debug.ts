@@ -1,68 +1,496 @@
-import type { Query } from "../../src/archetypeTable";
-import type Component from "../../src/component";
+import type { AppExitReason } from "../../src/app";
+import type { Query, QueryComponents } from "../../src/archetypeTable";
+import type { Command } from "../../src/commands";
+import type Schedule from "../../src/schedule";
 import type System from "../../src/system";
+import type SystemError from "../../src/systemError";
+import type { SystemConstructor } from "../../src/system";
 import Hook from "../../src/hook";
 
 /**
- * This hook is used to debug the ECS by logging information about systems and their entities.
+ * The levels of log messages, from the most to the least verbose.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Receives the log messages of a `DebugHook`, one method per level. `console` is a logger.
+ */
+export interface DebugLogger {
+  /**
+   * Logs a message about systems, schedules, frames and component changes.
+   * @param message The formatted message.
+   */
+  debug(message: string): void;
+  /**
+   * Logs a message about the app starting or stopping.
+   * @param message The formatted message.
+   */
+  info(message: string): void;
+  /**
+   * Logs a warning.
+   * @param message The formatted message.
+   */
+  warn(message: string): void;
+  /**
+   * Logs a system error.
+   * @param message The formatted message.
+   */
+  error(message: string): void;
+}
+
+/**
+ * Options for configuring a `DebugHook`.
+ */
+export interface DebugHookOptions {
+  /**
+   * The logger which receives the messages. Defaults to `console`.
+   */
+  logger?: DebugLogger;
+  /**
+   * The least severe level which is logged. Defaults to `"debug"`, i.e. everything.
+   */
+  level?: LogLevel;
+  /**
+   * The format of the messages. With `"text"`, messages are readable sentences. With `"json"`, every message is a line of JSON with its
+   * level, message and data. Defaults to `"text"`.
+   */
+  format?: "text" | "json";
+  /**
+   * The systems which are logged. Defaults to all systems.
+   */
+  systems?: SystemConstructor[];
+  /**
+   * The schedules whose systems are logged. Defaults to all schedules.
+   */
+  schedules?: Schedule[];
+  /**
+   * Whether to log the own fields of components which systems changed, per entity. Nested objects, arrays, maps and sets are compared
+   * structurally, so changes made in place are logged with the path to the changed value, e.g. `Inventory.items.0`. Defaults to false.
+   */
+  dumpComponents?: boolean;
+  /**
+   * Logs only every n-th frame, to keep the output of running simulations manageable. Errors, and the app starting or stopping, are always
+   * logged. Defaults to 1, i.e. every frame.
+   */
+  sampleEvery?: number;
+}
+
+/**
+ * The severity of each log level.
+ */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * This hook is used to debug the ECS by logging information about the app and its systems.
  *
  * Information logged includes:
- * - The name of the system that is running.
- * - The number of entities that the system is operating on.
- * - The components that the system requires from said entity.
+ * - The app starting and stopping, frames and schedules.
+ * - The name of the system that is running, the number of entities that it is operating on, and the components it requires.
+ * - Optionally, the component fields which systems changed.
+ * - The errors of systems, along with the entity they failed on.
+ *
+ * @example
+ * ```ts
+ * app.addHook(
+ *  new DebugHook({
+ *    systems: [MovementSystem],
+ *    format: "json",
+ *    dumpComponents: true,
+ *    sampleEvery: 60,
+ *  })
+ * );
+ * ```
  */
 export default class DebugHook extends Hook {
+  /**
+   * The logger which receives the messages.
+   */
+  private logger: DebugLogger;
+
+  /**
+   * The least severe level which is logged.
+   */
+  private level: LogLevel;
+
+  /**
+   * The schedules which are running, innermost last.
+   */
+  private scheduleStack: Schedule[] = [];
+
+  /**
+   * Whether the current frame is logged.
+   */
+  private sampled = true;
+
+  /**
+   * The component fields of the entities of each running system, before it updated them.
+   */
+  private dumps = new Map<System<QueryComponents>, unknown[][]>();
+
+  constructor(
+    /**
+     * The options of the hook.
+     */
+    private options: DebugHookOptions = {}
+  ) {
+    super();
+
+    this.logger = options.logger ?? console;
+    this.level = options.level ?? "debug";
+  }
+
+  override onStart(): void {
+    this.log("info", "App started", {});
+  }
+
+  override onStop(reason: AppExitReason): void {
+    this.log("info", `App stopped: ${reason}`, { reason });
+  }
+
+  override beforeFrame(frame: number): void {
+    this.sampled = frame % (this.options.sampleEvery ?? 1) === 0;
+
+    if (this.sampled) {
+      this.log("debug", `Frame ${frame.toString()} started`, { frame });
+    }
+  }
+
+  override beforeSchedule(schedule: Schedule): void {
+    this.scheduleStack.push(schedule);
+
+    if (this.isScheduleLogged()) {
+      this.log("debug", `Schedule '${schedule.name}' started`, {
+        schedule: schedule.name,
+      });
+    }
+  }
+
+  override afterSchedule(schedule: Schedule): void {
+    if (this.isScheduleLogged()) {
+      this.log("debug", `Schedule '${schedule.name}' finished`, {
+        schedule: schedule.name,
+      });
+    }
+
+    this.scheduleStack.pop();
+  }
+
   override beforeSystemUpdate(
-    system: System<Component[]>,
-    queries: Query<Component[]>[]
-  ): void | Promise<void> {
-    // Although `queries` cannot be empty at this point, we still need to check for it in order to satisfy the type system.
-    if (queries.length === 0) {
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): void {
+    if (!this.isSystemLogged(system)) {
       return;
     }
 
     /**
-     * The entities that the system is operating on.
-     */
-    const entities = queries.map(query => query.entity);
-    /**
-     * The components that the system requires from the entities.
+     * The names of the components that the system requires from the entities.
      */
-    const requiredComponents = queries[0]?.components ?? [];
-    console.log(
-      `System '${
-        system.constructor.name
-      }' running on ${entities.length.toString()} entities with components: ${requiredComponents
-        .map(component => component.constructor.name)
-        .join(", ")}`
+    const components = (queries[0]?.components ?? []).map(
+      component => component?.constructor.name ?? "undefined"
     );
-    console.log("--------------------------------");
+
+    this.log(
+      "debug",
+      `System '${system.constructor.name}' running on ${queries.length.toString()} entities with components: ${components.join(", ")}`,
+      {
+        system: system.constructor.name,
+        schedule: this.scheduleStack.at(-1)?.name,
+        entities: queries.length,
+        components,
+      }
+    );
+
+    if (this.options.dumpComponents === true) {
+      this.dumps.set(
+        system,
+        queries.map(query => query.components.map(dumpFields))
+      );
+    }
   }
 
   override afterSystemUpdate(
-    system: System<Component[]>,
-    queries: Query<Component[]>[]
-  ): void | Promise<void> {
-    // Although `queries` cannot be empty at this point, we still need to check for it in order to satisfy the type system.
-    if (queries.length === 0) {
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): void {
+    if (!this.isSystemLogged(system)) {
       return;
     }
 
     /**
-     * The entities that the system operated on.
+     * The component fields before the update, if they were dumped.
      */
-    const entities = queries.map(query => query.entity);
+    const before = this.dumps.get(system);
+    this.dumps.delete(system);
+
+    queries.forEach((query, i) => {
+      query.components.forEach((component, j) => {
+        /**
+         * The fields of the component before the update.
+         */
+        const previous = before?.[i]?.[j];
+        /**
+         * The fields of the component after the update.
+         */
+        const current = dumpFields(component);
+
+        if (!component || previous === undefined || current === undefined) {
+          return;
+        }
+
+        for (const { path, before, after } of diffValues(previous, current)) {
+          /**
+           * The dotted path of the changed value within the component.
+           */
+          const field = path.join(".");
+
+          this.log(
+            "debug",
+            `Entity ${query.entity.toString()}: ${component.constructor.name}.${field} ${String(before)} -> ${String(after)}`,
+            {
+              system: system.constructor.name,
+              entity: query.entity,
+              component: component.constructor.name,
+              field,
+              before,
+              after,
+            }
+          );
+        }
+      });
+    });
+
+    this.log(
+      "debug",
+      `System '${system.constructor.name}' finished running on ${queries.length.toString()} entities`,
+      { system: system.constructor.name, entities: queries.length }
+    );
+  }
+
+  override onSystemError(
+    system: System<QueryComponents>,
+    error: SystemError
+  ): void {
+    this.log("error", error.message, {
+      system: system.constructor.name,
+      schedule: error.schedule.name,
+      entity: error.entity,
+      failures: error.failures,
+      error: String(error.cause),
+    });
+  }
+
+  override afterCommandsFlush(commands: readonly Command[]): void {
+    if (this.sampled) {
+      this.log("debug", `Applied ${commands.length.toString()} commands`, {
+        commands: commands.length,
+      });
+    }
+  }
+
+  /**
+   * Checks if the messages of the current schedule are logged.
+   * @returns True if the frame is sampled and the schedule passes the filter, false otherwise.
+   */
+  private isScheduleLogged(): boolean {
     /**
-     * The components that the system required from the entities.
+     * The current schedule, if any.
      */
-    const requiredComponents = queries[0]?.components ?? [];
-    console.log("--------------------------------");
-    console.log(
-      `System '${
-        system.constructor.name
-      }' finished running on ${entities.length.toString()} entities with components: ${requiredComponents
-        .map(component => component.constructor.name)
-        .join(", ")}`
+    const schedule = this.scheduleStack.at(-1);
+
+    return (
+      this.sampled &&
+      (this.options.schedules === undefined ||
+        (schedule !== undefined && this.options.schedules.includes(schedule)))
     );
   }
+
+  /**
+   * Checks if the messages of a system are logged.
+   * @param system The system.
+   * @returns True if the system and its schedule pass the filters, false otherwise.
+   */
+  private isSystemLogged(system: System<QueryComponents>): boolean {
+    return (
+      this.isScheduleLogged() &&
+      (this.options.systems?.some(type => system instanceof type) ?? true)
+    );
+  }
+
+  /**
+   * Logs a message, if its level is logged.
+   * @param level The level of the message.
+   * @param message The readable message.
+   * @param data The data of the message, included in JSON output.
+   */
+  private log(
+    level: LogLevel,
+    message: string,
+    data: Record<string, unknown>
+  ): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    this.logger[level](
+      this.options.format === "json"
+        ? JSON.stringify({ level, message, ...data }, createJsonReplacer())
+        : message
+    );
+  }
+}
+
+/**
+ * A change to a value within a component.
+ */
+interface FieldChange {
+  /**
+   * The keys leading to the changed value, starting with the field of the component.
+   */
+  path: string[];
+  /**
+   * The value before the update, or undefined if it was added.
+   */
+  before: unknown;
+  /**
+   * The value after the update, or undefined if it was removed.
+   */
+  after: unknown;
+}
+
+/**
+ * Replaces values which are repeated along their own path, i.e. cycles.
+ */
+const CIRCULAR = "[Circular]";
+
+/**
+ * Deeply copies the own fields of a component, except for its name.
+ * @param component The component, or undefined for missing optional components.
+ * @returns The copied fields, or undefined if there is no component.
+ */
+function dumpFields(component: QueryComponents[number]): unknown {
+  if (!component) {
+    return undefined;
+  }
+
+  /**
+   * The fields of the component.
+   */
+  const fields: Record<string, unknown> = { ...component };
+  delete fields["name"];
+
+  return dumpValue(fields, [component]);
+}
+
+/**
+ * Deeply copies a value, so that changes made to the original in place can be found later. Arrays are copied as arrays, maps and sets as
+ * arrays of their entries, and other objects as records of their own enumerable fields. Functions are kept as they are.
+ * @param value The value to copy.
+ * @param ancestors The objects which contain the value, outermost first, to replace cycles with `"[Circular]"`.
+ * @returns The copy.
+ */
+function dumpValue(value: unknown, ancestors: object[]): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  if (ancestors.includes(value)) {
+    return CIRCULAR;
+  }
+
+  /**
+   * The ancestors of the nested values.
+   */
+  const path = [...ancestors, value];
+
+  if (value instanceof Map || value instanceof Set) {
+    return [...value].map(entry => dumpValue(entry, path));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => dumpValue(item, path));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, dumpValue(field, path)])
+  );
+}
+
+/**
+ * Compares two copies made by `dumpValue`, descending into arrays and records which exist in both.
+ * @param before The copy before the update.
+ * @param after The copy after the update.
+ * @param path The keys leading to the compared values.
+ * @returns The changed values, in the order of their keys.
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string[] = []
+): FieldChange[] {
+  if (
+    typeof before === "object" &&
+    before !== null &&
+    typeof after === "object" &&
+    after !== null &&
+    Array.isArray(before) === Array.isArray(after)
+  ) {
+    /**
+     * The keys of both values, in the order they first appear.
+     */
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return [...keys].flatMap(key =>
+      diffValues(
+        (before as Record<string, unknown>)[key],
+        (after as Record<string, unknown>)[key],
+        [...path, key]
+      )
+    );
+  }
+
+  return Object.is(before, after) ? [] : [{ path, before, after }];
+}
+
+/**
+ * Creates a replacer for `JSON.stringify` which writes bigints as strings, and replaces cycles with `"[Circular]"` instead of throwing.
+ * @returns The replacer, which must only be used for one call.
+ */
+function createJsonReplacer(): (
+  this: unknown,
+  key: string,
+  value: unknown
+) => unknown {
+  /**
+   * The objects which contain the current value, outermost first.
+   */
+  const ancestors: unknown[] = [];
+
+  return function (this: unknown, _key: string, value: unknown): unknown {
+    if (typeof value === "bigint") {
+      return value.toString();
+    }
+
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    // `this` is the object which contains the value, so everything after it in the stack has been written already
+    while (ancestors.length > 0 && ancestors.at(-1) !== this) {
+      ancestors.pop();
+    }
+
+    if (ancestors.includes(value)) {
+      return CIRCULAR;
+    }
+
+    ancestors.push(value);
+
+    return value;
+  };
 }
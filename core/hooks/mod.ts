@@ -2,6 +2,24 @@
  * @module core/hooks Contains hooks from the core package.
  */
 
-import DebugHook from "./debug";
+import DebugHook, {
+  type DebugHookOptions,
+  type DebugLogger,
+  type LogLevel,
+} from "./debug";
+import ProfilerHook, {
+  type ProfilerOptions,
+  type TimingStats,
+  type TraceEvent,
+} from "./profiler";
 
-export { DebugHook };
+export {
+  DebugHook,
+  ProfilerHook,
+  type DebugHookOptions,
+  type DebugLogger,
+  type LogLevel,
+  type ProfilerOptions,
+  type TimingStats,
+  type TraceEvent,
+};
@@ -0,0 +1,465 @@
+import type { Query, QueryComponents } from "../../src/archetypeTable";
+import type Schedule from "../../src/schedule";
+import type System from "../../src/system";
+import Hook from "../../src/hook";
+
+/**
+ * Options for configuring a `ProfilerHook`.
+ */
+export interface ProfilerOptions {
+  /**
+   * The number of most recent samples which the statistics are computed over. Defaults to 120.
+   */
+  windowSize?: number;
+  /**
+   * The maximum number of trace events which are kept for `exportTrace`. Older events are dropped. Defaults to 10000.
+   */
+  maxTraceEvents?: number;
+  /**
+   * Returns the current timestamp in milliseconds. Can be replaced for deterministic tests. Defaults to `performance.now`.
+   */
+  clock?: () => number;
+}
+
+/**
+ * Statistics of durations over the most recent samples, in milliseconds.
+ */
+export interface TimingStats {
+  /**
+   * The number of samples the statistics are computed over.
+   */
+  count: number;
+  /**
+   * The shortest duration.
+   */
+  min: number;
+  /**
+   * The average duration.
+   */
+  avg: number;
+  /**
+   * The 95th percentile of the durations.
+   */
+  p95: number;
+  /**
+   * The longest duration.
+   */
+  max: number;
+  /**
+   * The most recent duration.
+   */
+  last: number;
+}
+
+/**
+ * A complete event in the Chrome trace-event format, which trace viewers like Perfetto or `chrome://tracing` can open.
+ */
+export interface TraceEvent {
+  /**
+   * The name of the frame, schedule or system.
+   */
+  name: string;
+  /**
+   * Whether the event is a frame, a schedule or a system.
+   */
+  cat: "frame" | "schedule" | "system";
+  /**
+   * The phase of the event, which is always a complete event with a duration.
+   */
+  ph: "X";
+  /**
+   * The start of the event, in microseconds.
+   */
+  ts: number;
+  /**
+   * The duration of the event, in microseconds.
+   */
+  dur: number;
+  /**
+   * The process of the event.
+   */
+  pid: number;
+  /**
+   * The thread of the event. Frames and schedules are on thread 0, and systems which run at the same time are on separate threads.
+   */
+  tid: number;
+  /**
+   * Additional information, e.g. the number of entities of a system.
+   */
+  args?: Record<string, number>;
+}
+
+/**
+ * A hook which measures the wall-clock duration of every frame, schedule and system, and the number of entities each system updates.
+ *
+ * Statistics are computed over a rolling window of the most recent samples, and the measurements can be exported as a Chrome trace to find
+ * out which system took up the frame budget.
+ *
+ * @example
+ * ```ts
+ * const profiler = new ProfilerHook({ windowSize: 300 });
+ * app.addHook(profiler);
+ *
+ * profiler.getSystemStats().get("MovementSystem"); // { count, min, avg, p95, max, last }
+ * await writeFile("trace.json", profiler.exportTrace());
+ * ```
+ */
+export default class ProfilerHook extends Hook {
+  /**
+   * The durations of frames.
+   */
+  private frames: RollingWindow;
+
+  /**
+   * The durations of schedules, keyed by their name.
+   */
+  private schedules = new Map<string, RollingWindow>();
+
+  /**
+   * The durations of systems, keyed by the name of their class.
+   */
+  private systems = new Map<string, RollingWindow>();
+
+  /**
+   * The number of entities which each system updated on its last run, keyed by the name of its class.
+   */
+  private entityCounts = new Map<string, number>();
+
+  /**
+   * The recorded trace events, oldest first.
+   */
+  private traceEvents: TraceEvent[] = [];
+
+  /**
+   * The start of the current frame.
+   */
+  private frameStart: number | undefined;
+
+  /**
+   * The starts of the schedules which are running.
+   */
+  private scheduleStarts = new Map<Schedule, number>();
+
+  /**
+   * The starts of the systems which are running, along with their thread in the trace.
+   */
+  private systemStarts = new Map<
+    System<QueryComponents>,
+    { start: number; tid: number }
+  >();
+
+  /**
+   * The number of samples which statistics are computed over.
+   */
+  private windowSize: number;
+
+  /**
+   * The maximum number of kept trace events.
+   */
+  private maxTraceEvents: number;
+
+  /**
+   * Returns the current timestamp in milliseconds.
+   */
+  private clock: () => number;
+
+  constructor(options: ProfilerOptions = {}) {
+    super();
+
+    this.windowSize = options.windowSize ?? 120;
+    this.maxTraceEvents = options.maxTraceEvents ?? 10000;
+    this.clock = options.clock ?? (() => performance.now());
+    this.frames = new RollingWindow(this.windowSize);
+  }
+
+  override beforeFrame(): void {
+    this.frameStart = this.clock();
+  }
+
+  override afterFrame(frame: number): void {
+    if (this.frameStart === undefined) {
+      return;
+    }
+
+    this.frames.push(
+      this.record(`frame ${frame.toString()}`, "frame", this.frameStart, 0)
+    );
+    this.frameStart = undefined;
+  }
+
+  override beforeSchedule(schedule: Schedule): void {
+    this.scheduleStarts.set(schedule, this.clock());
+  }
+
+  override afterSchedule(schedule: Schedule): void {
+    /**
+     * The start of the schedule, if it was measured.
+     */
+    const start = this.scheduleStarts.get(schedule);
+
+    if (start === undefined) {
+      return;
+    }
+
+    this.scheduleStarts.delete(schedule);
+    getWindow(this.schedules, schedule.name, this.windowSize).push(
+      this.record(schedule.name, "schedule", start, 0)
+    );
+  }
+
+  override beforeSystemUpdate(system: System<QueryComponents>): void {
+    /**
+     * The threads of the systems which are running.
+     */
+    const busy = new Set(
+      [...this.systemStarts.values()].map(started => started.tid)
+    );
+    /**
+     * The first free thread, starting at 1.
+     */
+    let tid = 1;
+
+    while (busy.has(tid)) {
+      tid++;
+    }
+
+    this.systemStarts.set(system, { start: this.clock(), tid });
+  }
+
+  override afterSystemUpdate(
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): void {
+    /**
+     * The start and thread of the system, if it was measured.
+     */
+    const started = this.systemStarts.get(system);
+
+    if (!started) {
+      return;
+    }
+
+    /**
+     * The name of the system class.
+     */
+    const name = system.constructor.name;
+
+    this.systemStarts.delete(system);
+    this.entityCounts.set(name, queries.length);
+    getWindow(this.systems, name, this.windowSize).push(
+      this.record(name, "system", started.start, started.tid, {
+        entities: queries.length,
+      })
+    );
+  }
+
+  /**
+   * Gets the statistics of the frame durations.
+   * @returns The statistics, or undefined if no frame was measured.
+   */
+  public getFrameStats(): TimingStats | undefined {
+    return this.frames.getStats();
+  }
+
+  /**
+   * Gets the statistics of the schedule durations.
+   * @returns The statistics, keyed by the name of the schedules.
+   */
+  public getScheduleStats(): Map<string, TimingStats> {
+    return getAllStats(this.schedules);
+  }
+
+  /**
+   * Gets the statistics of the system durations. Systems of the same class are measured together.
+   * @returns The statistics, keyed by the name of the system classes.
+   */
+  public getSystemStats(): Map<string, TimingStats> {
+    return getAllStats(this.systems);
+  }
+
+  /**
+   * Gets the number of entities which each system updated on its last run.
+   * @returns The numbers of entities, keyed by the name of the system classes.
+   */
+  public getEntityCounts(): Map<string, number> {
+    return new Map(this.entityCounts);
+  }
+
+  /**
+   * Gets the recorded trace events.
+   * @returns The trace events, oldest first.
+   */
+  public getTraceEvents(): readonly TraceEvent[] {
+    return this.traceEvents;
+  }
+
+  /**
+   * Exports the recorded trace events in the Chrome trace-event format.
+   * @returns The JSON of the trace.
+   */
+  public exportTrace(): string {
+    return JSON.stringify({
+      traceEvents: this.traceEvents,
+      displayTimeUnit: "ms",
+    });
+  }
+
+  /**
+   * Clears all measurements.
+   */
+  public reset(): void {
+    this.frames = new RollingWindow(this.windowSize);
+    this.schedules.clear();
+    this.systems.clear();
+    this.entityCounts.clear();
+    this.traceEvents = [];
+  }
+
+  /**
+   * Records a trace event which ends now.
+   * @param name The name of the event.
+   * @param cat The category of the event.
+   * @param start The start of the event, in milliseconds.
+   * @param tid The thread of the event.
+   * @param args Additional information.
+   * @returns The duration of the event, in milliseconds.
+   */
+  private record(
+    name: string,
+    cat: TraceEvent["cat"],
+    start: number,
+    tid: number,
+    args?: Record<string, number>
+  ): number {
+    /**
+     * The duration of the event.
+     */
+    const duration = this.clock() - start;
+
+    this.traceEvents.push({
+      name,
+      cat,
+      ph: "X",
+      ts: start * 1000,
+      dur: duration * 1000,
+      pid: 1,
+      tid,
+      ...(args && { args }),
+    });
+
+    if (this.traceEvents.length > this.maxTraceEvents) {
+      this.traceEvents.splice(0, this.traceEvents.length - this.maxTraceEvents);
+    }
+
+    return duration;
+  }
+}
+
+/**
+ * The most recent samples of a duration.
+ */
+class RollingWindow {
+  /**
+   * The samples, oldest first.
+   */
+  private samples: number[] = [];
+
+  constructor(
+    /**
+     * The maximum number of samples.
+     */
+    private size: number
+  ) {}
+
+  /**
+   * Adds a sample, dropping the oldest one if the window is full.
+   * @param sample The sample.
+   */
+  public push(sample: number): void {
+    this.samples.push(sample);
+
+    if (this.samples.length > this.size) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Computes the statistics of the samples.
+   * @returns The statistics, or undefined if there are no samples.
+   */
+  public getStats(): TimingStats | undefined {
+    /**
+     * The samples, shortest first.
+     */
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    /**
+     * The most recent sample.
+     */
+    const last = this.samples.at(-1);
+
+    if (last === undefined) {
+      return undefined;
+    }
+
+    return {
+      count: sorted.length,
+      min: sorted[0] ?? last,
+      avg: sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length,
+      p95: sorted[Math.ceil(sorted.length * 0.95) - 1] ?? last,
+      max: sorted.at(-1) ?? last,
+      last,
+    };
+  }
+}
+
+/**
+ * Gets the window of a name, creating it if needed.
+ * @param windows The windows, keyed by name.
+ * @param name The name.
+ * @param size The size of new windows.
+ * @returns The window.
+ */
+function getWindow(
+  windows: Map<string, RollingWindow>,
+  name: string,
+  size: number
+): RollingWindow {
+  /**
+   * The window, if it exists.
+   */
+  let window = windows.get(name);
+
+  if (!window) {
+    window = new RollingWindow(size);
+    windows.set(name, window);
+  }
+
+  return window;
+}
+
+/**
+ * Computes the statistics of windows.
+ * @param windows The windows, keyed by name.
+ * @returns The statistics, keyed by name.
+ */
+function getAllStats(
+  windows: Map<string, RollingWindow>
+): Map<string, TimingStats> {
+  /**
+   * The statistics, keyed by name.
+   */
+  const stats = new Map<string, TimingStats>();
+
+  for (const [name, window] of windows) {
+    /**
+     * The statistics of the window, if it has samples.
+     */
+    const windowStats = window.getStats();
+
+    if (windowStats) {
+      stats.set(name, windowStats);
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,37 @@
+/**
+ * A resource which keeps track of time in fixed-timestep schedules. A `FixedUpdateSchedule` inserts it and keeps it updated.
+ *
+ * All durations are in seconds.
+ */
+export default class FixedTime {
+  /**
+   * The fixed time between two steps, i.e. the timestep of the schedule.
+   */
+  public delta = 0;
+
+  /**
+   * The simulated time since the first step, i.e. the sum of all deltas.
+   */
+  public elapsed = 0;
+
+  /**
+   * The number of steps so far.
+   */
+  public step = 0;
+
+  /**
+   * How far the real time is between the last step and the next one, from 0 to 1. Used by rendering-side systems to interpolate
+   * between the previous and the current state of the simulation.
+   */
+  public alpha = 0;
+
+  /**
+   * The real time which has not been simulated yet, in seconds.
+   */
+  public accumulator = 0;
+
+  /**
+   * The timestamp at which the steps were last counted, in milliseconds, or undefined if the clock hasn't started yet.
+   */
+  public timestamp: number | undefined;
+}
@@ -0,0 +1,9 @@
+/**
+ * @module core/resources Contains resources for the core package.
+ */
+
+import FixedTime from "./fixedTime";
+import State from "./state";
+import Time from "./time";
+
+export { FixedTime, State, Time };
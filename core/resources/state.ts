@@ -0,0 +1,28 @@
+/**
+ * A resource which holds the current value of a state machine, e.g. the screen of a game. Extend it to define a state, so that it can be
+ * identified by its class like any other resource, and used by the `inState` and `onStateEnter` run conditions.
+ *
+ * @example
+ * ```ts
+ * class GameState extends State<"menu" | "playing" | "paused"> {}
+ *
+ * app.insertResource(new GameState("menu"));
+ * ```
+ * @template T The values of the state.
+ */
+export default abstract class State<T> {
+  constructor(
+    /**
+     * The current value of the state.
+     */
+    public current: T
+  ) {}
+
+  /**
+   * Changes the value of the state.
+   * @param value The new value of the state.
+   */
+  public set(value: T): void {
+    this.current = value;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * A resource which keeps track of time between updates. The `UPDATE_SCHEDULE` inserts it and keeps it updated.
+ *
+ * All durations are in seconds.
+ */
+export default class Time {
+  /**
+   * The time between the previous update and the current update.
+   */
+  public delta = 0;
+
+  /**
+   * The time since the first update, i.e. the sum of all deltas.
+   */
+  public elapsed = 0;
+
+  /**
+   * The number of updates so far.
+   */
+  public frame = 0;
+
+  /**
+   * The timestamp of the previous update, in milliseconds.
+   */
+  private last: number;
+
+  constructor(
+    /**
+     * Returns the current timestamp in milliseconds. Can be replaced for deterministic tests or simulations.
+     */
+    private clock: () => number = () => performance.now()
+  ) {
+    this.last = clock();
+  }
+
+  /**
+   * Advances the time to the current timestamp of the clock.
+   */
+  public update(): void {
+    /**
+     * The current timestamp.
+     */
+    const now = this.clock();
+
+    this.delta = (now - this.last) / 1000;
+    this.elapsed += this.delta;
+    this.frame++;
+    this.last = now;
+  }
+
+  /**
+   * Restarts the clock, so that the next delta only counts the time since this call. The `UPDATE_SCHEDULE` calls it every time the app
+   * starts running, so that the time before the run is not counted.
+   */
+  public reset(): void {
+    this.last = this.clock();
+  }
+}
@@ -0,0 +1,115 @@
+import Runner from "../../src/runner";
+
+/**
+ * A runner which only runs frames when told to with `advance`, e.g. for tests or for embedding the app in another loop.
+ *
+ * @example
+ * ```ts
+ * const runner = new ManualRunner();
+ * const running = app.run({ runner });
+ *
+ * await runner.advance(3); // resolves once 3 frames have ran
+ * app.stop();
+ * await running; // "stopped"
+ * ```
+ */
+export default class ManualRunner extends Runner {
+  /**
+   * Resolves the wait of the app for its next frame, if the app is waiting.
+   */
+  private release: (() => void) | undefined;
+
+  /**
+   * Callbacks of frames which were requested while the app was busy, to be released when it waits again.
+   */
+  private queued: (() => void)[] = [];
+
+  /**
+   * Callbacks of frames which were released and are running, to be called when the app waits again.
+   */
+  private running: (() => void)[] = [];
+
+  /**
+   * Whether the app has stopped running.
+   */
+  private finished = false;
+
+  /**
+   * Runs frames of the app, one after another.
+   * @param frames The number of frames to run.
+   * @returns A promise which resolves once the frames have ran, or once the app has stopped running.
+   */
+  public async advance(frames = 1): Promise<void> {
+    for (let i = 0; i < frames && !this.finished; i++) {
+      await new Promise<void>(resolve => {
+        /**
+         * Resolves the wait of the app, if the app is waiting.
+         */
+        const release = this.release;
+
+        if (release) {
+          this.release = undefined;
+          this.running.push(resolve);
+          release();
+        } else {
+          this.queued.push(resolve);
+        }
+      });
+    }
+  }
+
+  override wait(signal: AbortSignal): Promise<void> {
+    this.settle(this.running);
+    this.running = [];
+    this.finished = false;
+
+    /**
+     * The next requested frame, if any.
+     */
+    const next = this.queued.shift();
+
+    if (next) {
+      this.running.push(next);
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+
+      /**
+       * Stops waiting when the app is stopped.
+       */
+      const onAbort = () => {
+        this.release = undefined;
+        resolve();
+      };
+
+      this.release = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  override finish(): void {
+    this.finished = true;
+    this.release = undefined;
+    this.settle([...this.running, ...this.queued]);
+    this.running = [];
+    this.queued = [];
+  }
+
+  /**
+   * Calls the callbacks of frames.
+   * @param callbacks The callbacks to call.
+   */
+  private settle(callbacks: (() => void)[]): void {
+    for (const callback of callbacks) {
+      callback();
+    }
+  }
+}
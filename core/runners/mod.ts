@@ -0,0 +1,8 @@
+/**
+ * @module core/runners Contains runners for the core package.
+ */
+
+import ManualRunner from "./manual";
+import TimeoutRunner from "./timeout";
+
+export { ManualRunner, TimeoutRunner };
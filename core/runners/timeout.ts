@@ -0,0 +1,65 @@
+import Runner from "../../src/runner";
+
+/**
+ * A runner which runs frames at a target rate, by waiting with `setTimeout` for the rest of each frame's time budget.
+ *
+ * Frames which take longer than their budget are followed by the next frame right away, without trying to catch up.
+ */
+export default class TimeoutRunner extends Runner {
+  /**
+   * The timestamp at which the current frame started, in milliseconds.
+   */
+  private frameStart: number | undefined;
+
+  constructor(
+    /**
+     * The target number of frames per second.
+     */
+    public readonly fps = 60,
+    /**
+     * Returns the current timestamp in milliseconds. Can be replaced for deterministic tests or simulations.
+     */
+    private clock: () => number = () => performance.now()
+  ) {
+    super();
+  }
+
+  override wait(signal: AbortSignal): Promise<void> {
+    /**
+     * How long to wait until the next frame, in milliseconds.
+     */
+    const delay =
+      this.frameStart === undefined
+        ? 0
+        : Math.max(0, 1000 / this.fps - (this.clock() - this.frameStart));
+
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+
+      /**
+       * Stops waiting when the app is stopped.
+       */
+      const onAbort = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      /**
+       * The timeout after which the next frame starts.
+       */
+      const timeout = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        this.frameStart = this.clock();
+        resolve();
+      }, delay);
+
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  override finish(): void {
+    this.frameStart = undefined;
+  }
+}
@@ -0,0 +1,139 @@
+import Schedule from "../../src/schedule";
+import type Resources from "../../src/resources";
+import FixedTime from "../resources/fixedTime";
+
+/**
+ * Options for configuring a fixed-timestep schedule.
+ */
+export interface FixedUpdateOptions {
+  /**
+   * The time between two steps, in seconds. Defaults to 1/60.
+   */
+  timestep?: number;
+  /**
+   * The maximum number of steps to run at once when catching up. Time beyond that is dropped, so that a slow step doesn't make the next
+   * ones fall further and further behind. Defaults to 5.
+   */
+  maxSteps?: number;
+  /**
+   * Returns the current timestamp in milliseconds. Can be replaced for deterministic tests or simulations.
+   */
+  clock?: () => number;
+  /**
+   * Determines if the schedule should run. Defaults to always.
+   */
+  shouldRun?: () => boolean;
+}
+
+/**
+ * A schedule that runs its systems at a fixed rate, independent of how fast the app runs.
+ *
+ * Real time is collected in an accumulator, and every frame the systems run once for every whole timestep in it. It has the same order as
+ * the `UpdateSchedule`, so it runs right before or after it, depending on which was registered first. It keeps the `FixedTime` resource
+ * updated, inserting it if it does not exist. The accumulator is kept in the resource, so every app has its own, and it is reset every
+ * time the app starts running.
+ */
+export default class FixedUpdateSchedule extends Schedule {
+  /**
+   * The time between two steps, in seconds.
+   */
+  public readonly timestep: number;
+
+  /**
+   * The maximum number of steps to run at once when catching up.
+   */
+  public readonly maxSteps: number;
+
+  /**
+   * Returns the current timestamp in milliseconds.
+   */
+  private clock: () => number;
+
+  constructor(options: FixedUpdateOptions = {}) {
+    super("fixedUpdate", 1, options.shouldRun ?? (() => true));
+
+    this.timestep = options.timestep ?? 1 / 60;
+    this.maxSteps = options.maxSteps ?? 5;
+    this.clock = options.clock ?? (() => performance.now());
+  }
+
+  /**
+   * Adds the real time since the last call to the accumulator and takes as many whole timesteps out of it as possible. The first call only
+   * starts the clock.
+   */
+  override getStepCount(resources: Resources): number {
+    /**
+     * The fixed time resource, which holds the accumulator.
+     */
+    const fixedTime = this.getFixedTime(resources);
+    /**
+     * The current timestamp.
+     */
+    const now = this.clock();
+
+    if (fixedTime.timestamp !== undefined) {
+      fixedTime.accumulator += (now - fixedTime.timestamp) / 1000;
+    }
+    fixedTime.timestamp = now;
+
+    /**
+     * The number of whole timesteps in the accumulator.
+     */
+    let steps = Math.floor(fixedTime.accumulator / this.timestep);
+
+    if (steps > this.maxSteps) {
+      steps = this.maxSteps;
+      fixedTime.accumulator %= this.timestep;
+    } else {
+      fixedTime.accumulator -= steps * this.timestep;
+    }
+
+    fixedTime.alpha = fixedTime.accumulator / this.timestep;
+
+    return steps;
+  }
+
+  /**
+   * Empties the accumulator and stops the clock, so that the time while the app wasn't running is not caught up with.
+   */
+  override reset(resources: Resources): void {
+    /**
+     * The fixed time resource.
+     */
+    const fixedTime = this.getFixedTime(resources);
+
+    fixedTime.accumulator = 0;
+    fixedTime.timestamp = undefined;
+    fixedTime.alpha = 0;
+  }
+
+  override prepare(resources: Resources): void {
+    /**
+     * The fixed time resource.
+     */
+    const fixedTime = this.getFixedTime(resources);
+
+    fixedTime.delta = this.timestep;
+    fixedTime.elapsed += this.timestep;
+    fixedTime.step++;
+  }
+
+  /**
+   * Gets the fixed time resource, inserting it if it does not exist.
+   * @param resources The resources of the app.
+   * @returns The fixed time resource.
+   */
+  private getFixedTime(resources: Resources): FixedTime {
+    /**
+     * The fixed time resource, if it exists.
+     */
+    let fixedTime = resources.get(FixedTime);
+
+    if (!fixedTime) {
+      fixedTime = new FixedTime();
+      resources.insert(fixedTime);
+    }
+
+    return fixedTime;
+  }
+}
@@ -2,7 +2,19 @@
  * @module core/schedules Contains schedules for the core package.
  */
 
+import FixedUpdateSchedule, { type FixedUpdateOptions } from "./fixedUpdate";
+import PostUpdateSchedule from "./postUpdate";
+import PreUpdateSchedule from "./preUpdate";
+import ShutdownSchedule from "./shutdown";
 import StartupSchedule from "./startup";
 import UpdateSchedule from "./update";
 
-export { StartupSchedule, UpdateSchedule };
+export {
+  FixedUpdateSchedule,
+  PostUpdateSchedule,
+  PreUpdateSchedule,
+  ShutdownSchedule,
+  StartupSchedule,
+  UpdateSchedule,
+  type FixedUpdateOptions,
+};
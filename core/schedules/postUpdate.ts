@@ -0,0 +1,10 @@
+import Schedule from "../../src/schedule";
+
+/**
+ * A schedule that runs every frame, after the `UpdateSchedule`, e.g. to propagate or render the results of the update.
+ */
+export default class PostUpdateSchedule extends Schedule {
+  constructor() {
+    super("postUpdate", 2, () => true);
+  }
+}
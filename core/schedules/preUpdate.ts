@@ -0,0 +1,10 @@
+import Schedule from "../../src/schedule";
+
+/**
+ * A schedule that runs every frame, before the `UpdateSchedule`, e.g. to collect input.
+ */
+export default class PreUpdateSchedule extends Schedule {
+  constructor() {
+    super("preUpdate", 0, () => true);
+  }
+}
@@ -0,0 +1,10 @@
+import Schedule from "../../src/schedule";
+
+/**
+ * A schedule that runs once when the app stops running, whether it completed, was stopped or was aborted.
+ */
+export default class ShutdownSchedule extends Schedule {
+  constructor() {
+    super("shutdown", 0, () => true, "shutdown");
+  }
+}
@@ -1,10 +1,31 @@
 import Schedule from "../../src/schedule";
+import type Resources from "../../src/resources";
+import Time from "../resources/time";
 
 /**
- * A schedule that runs every update.
+ * A schedule that runs every update. It keeps the `Time` resource updated, inserting it if it does not exist, and restarts its clock
+ * every time the app starts running.
  */
 export default class UpdateSchedule extends Schedule {
   constructor() {
     super("update", 1, () => true);
   }
+
+  override prepare(resources: Resources): void {
+    /**
+     * The time resource, if it exists.
+     */
+    let time = resources.get(Time);
+
+    if (!time) {
+      time = new Time();
+      resources.insert(time);
+    }
+
+    time.update();
+  }
+
+  override reset(resources: Resources): void {
+    resources.get(Time)?.reset();
+  }
 }
@@ -3,5 +3,6 @@
  */
 
 import MovementSystem from "./movement";
+import TransformPropagationSystem from "./transformPropagation";
 
-export { MovementSystem };
+export { MovementSystem, TransformPropagationSystem };
@@ -1,22 +1,40 @@
 import Position from "../components/position";
 import Velocity from "../components/velocity";
+import Time from "../resources/time";
 import type { Entity } from "../../src/entity";
-import System from "../../src/system";
-import type { Query } from "../../mod";
+import System, { type ResourceAccess } from "../../src/system";
+import type CachedQuery from "../../src/cachedQuery";
 
 /**
- * A basic movement system that moves entities based on their velocity. It requires the `Position` and `Velocity` components.
+ * A basic movement system that moves entities based on their velocity, per second of `Time.delta`. It requires the `Position` and `Velocity`
+ * components, and the `Time` resource.
+ *
+ * `Time` is the variable time between frames, which the `UPDATE_SCHEDULE` keeps updated, so the system belongs in the `UPDATE_SCHEDULE` or
+ * a schedule which runs along with it. Without the `UPDATE_SCHEDULE`, the app fails since `Time` doesn't exist. In a `FixedUpdateSchedule`,
+ * it would move entities by the frame time on every fixed step, so fixed-step movement should use `FixedTime.delta` instead.
  */
 export default class MovementSystem extends System<[Position, Velocity]> {
-  override select(): Query<[Position, Velocity]>[] {
-    return this.archetypeTable.find(Position, Velocity);
+  override readonly resourceAccess: ResourceAccess = { read: [Time] };
+
+  /**
+   * The entities which have both a position and a velocity.
+   */
+  private query = this.archetypeTable.query(Position, Velocity);
+
+  override select(): CachedQuery<[Position, Velocity]> {
+    return this.query;
   }
 
   override update(
     _: Entity,
     components: [Position, Velocity]
   ): void | Promise<void> {
-    components[0].x += components[1].x;
-    components[0].y += components[1].y;
+    /**
+     * The time since the previous update.
+     */
+    const delta = this.resources.getOrThrow(Time).delta;
+
+    components[0].x += components[1].x * delta;
+    components[0].y += components[1].y * delta;
   }
 }
@@ -0,0 +1,115 @@
+import GlobalTransform from "../components/globalTransform";
+import Transform from "../components/transform";
+import type { Entity } from "../../src/entity";
+import System, { type ComponentAccess } from "../../src/system";
+import type CachedQuery from "../../src/cachedQuery";
+import { Changed, Without } from "../../src/queryFilter";
+import { Children, Parent } from "../../src/hierarchy";
+
+/**
+ * Computes the `GlobalTransform` of every entity with a `Transform`, by walking down the hierarchy from the root entities. Entities which
+ * don't have a `GlobalTransform` yet get one.
+ *
+ * Global transforms are only recomputed for subtrees whose root has changed: its `Transform` changed, it was moved to another parent, or it
+ * has no `GlobalTransform`. Children of entities without a `Transform` are not propagated to.
+ *
+ * Add it to a schedule which runs after the systems that move entities, e.g. `POST_UPDATE_SCHEDULE`.
+ */
+export default class TransformPropagationSystem extends System<[Transform]> {
+  override readonly componentAccess: ComponentAccess = {
+    read: [Transform, Parent, Children],
+    write: [GlobalTransform],
+  };
+
+  /**
+   * The entities which are not children of other entities.
+   */
+  private roots = this.archetypeTable.query(Transform, Without(Parent));
+
+  /**
+   * The entities whose transform was added or changed since the last run.
+   */
+  private changed = this.archetypeTable.query(Transform, Changed(Transform));
+
+  /**
+   * The entities whose transform was added or changed since the last run, collected before updating.
+   */
+  private dirty = new Set<Entity>();
+
+  /**
+   * The parents of the entities as of the last run, used to detect reparented entities.
+   */
+  private previousParents = new Map<Entity, Entity | undefined>();
+
+  /**
+   * The parents of the entities visited during the current run.
+   */
+  private parents = new Map<Entity, Entity | undefined>();
+
+  override select(): CachedQuery<[Transform]> {
+    this.dirty = new Set(this.changed.toArray().map(query => query.entity));
+    this.previousParents = this.parents;
+    this.parents = new Map();
+
+    return this.roots;
+  }
+
+  override update(entity: Entity, components: [Transform]): void {
+    this.propagate(entity, components[0], undefined, false);
+  }
+
+  /**
+   * Computes the global transform of an entity if needed, and then of its children.
+   * @param entity The entity.
+   * @param transform The local transform of the entity.
+   * @param parent The global transform of the parent, or undefined for root entities.
+   * @param parentDirty Whether the global transform of the parent was recomputed.
+   */
+  private propagate(
+    entity: Entity,
+    transform: Transform,
+    parent: GlobalTransform | undefined,
+    parentDirty: boolean
+  ): void {
+    /**
+     * The parent entity, if any.
+     */
+    const parentEntity = this.archetypeTable.getParent(entity);
+    /**
+     * The current global transform of the entity, if it has one.
+     */
+    let global = this.archetypeTable.get(entity, GlobalTransform);
+    /**
+     * Whether the global transform of the entity must be recomputed.
+     */
+    const dirty =
+      parentDirty ||
+      !global ||
+      this.dirty.has(entity) ||
+      !this.previousParents.has(entity) ||
+      this.previousParents.get(entity) !== parentEntity;
+
+    this.parents.set(entity, parentEntity);
+
+    if (dirty) {
+      if (global) {
+        global.compute(parent, transform);
+        this.archetypeTable.markChanged(entity, GlobalTransform);
+      } else {
+        global = new GlobalTransform().compute(parent, transform);
+        this.commands.insert(entity, global);
+      }
+    }
+
+    for (const child of this.archetypeTable.getChildren(entity)) {
+      /**
+       * The local transform of the child, if it has one.
+       */
+      const childTransform = this.archetypeTable.get(child, Transform);
+
+      if (childTransform) {
+        this.propagate(child, childTransform, global, dirty);
+      }
+    }
+  }
+}
@@ -3,24 +3,180 @@
  * @module default The main module for the ECS library. Serves as a barrel file for JSR.
  */
 
-import App from "./src/app";
-import { type Entity } from "./src/entity";
+import App, {
+  type AppOptions,
+  type AppExitReason,
+  type RunOptions,
+} from "./src/app";
+import {
+  type Entity,
+  createEntity,
+  getEntityIndex,
+  getEntityGeneration,
+} from "./src/entity";
+import EntityAllocator from "./src/entityAllocator";
 import Component from "./src/component";
-import System from "./src/system";
+import System, {
+  type SystemConstructor,
+  type ResourceAccess,
+  type ComponentAccess,
+} from "./src/system";
 import Hook from "./src/hook";
+import Schedule, { type SchedulePhase } from "./src/schedule";
+import Runner from "./src/runner";
+import SystemSet, {
+  type SystemLabel,
+  type SystemOptions,
+  type SystemOrdering,
+  type SystemSetOptions,
+} from "./src/systemSet";
+import { and, or, not, type RunCondition } from "./src/runCondition";
 import ArchetypeTable, {
   Query,
   type ComponentConstructor,
+  type ComponentObserver,
+  type QueryComponents,
 } from "./src/archetypeTable";
+import CachedQuery from "./src/cachedQuery";
+import Commands, { type Command, type CommandFailure } from "./src/commands";
+import Resources, { type ResourceConstructor } from "./src/resources";
+import QueryFilter, {
+  Added,
+  Changed,
+  Optional,
+  OptionalTerm,
+  Or,
+  With,
+  Without,
+  RelatesTo,
+  type QueryData,
+  type QueryTerm,
+} from "./src/queryFilter";
+import Relation from "./src/relation";
+import { Parent, Children } from "./src/hierarchy";
+import ComponentRegistry, {
+  type ComponentSerializer,
+  type SerializationContext,
+  type SerializedValue,
+} from "./src/componentRegistry";
+import {
+  serialize,
+  deserialize,
+  type EntitySnapshot,
+  type SnapshotFormat,
+  type WorldSnapshot,
+} from "./src/snapshot";
+import Events, {
+  EventChannels,
+  EventReader,
+  EventWriter,
+  type EventConstructor,
+} from "./src/events";
+import Prefabs, { type Prefab, type PrefabComponents } from "./src/prefabs";
+import SystemError, { type ErrorPolicy } from "./src/systemError";
+import BatchSystem from "./src/batchSystem";
+import FunctionSystem, { system } from "./src/functionSystem";
+import {
+  commands,
+  eventReader,
+  eventWriter,
+  local,
+  query,
+  queryMut,
+  res,
+  resMut,
+  type Local,
+  type SystemParam,
+  type SystemParamContext,
+  type SystemParamValues,
+} from "./src/systemParams";
 
 export {
   type Entity,
+  createEntity,
+  getEntityIndex,
+  getEntityGeneration,
+  EntityAllocator,
   Component,
   System,
+  BatchSystem,
+  FunctionSystem,
+  system,
+  query,
+  queryMut,
+  res,
+  resMut,
+  eventReader,
+  eventWriter,
+  commands,
+  local,
+  type Local,
+  type SystemParam,
+  type SystemParamContext,
+  type SystemParamValues,
+  type SystemConstructor,
+  type ResourceAccess,
+  type ComponentAccess,
+  SystemSet,
+  type SystemLabel,
+  type SystemOptions,
+  type SystemOrdering,
+  type SystemSetOptions,
+  and,
+  or,
+  not,
+  type RunCondition,
   Hook,
+  Schedule,
+  type SchedulePhase,
+  Runner,
   ArchetypeTable,
   Query,
+  CachedQuery,
+  Commands,
+  type Command,
+  type CommandFailure,
+  Resources,
+  type ResourceConstructor,
+  type AppOptions,
+  type AppExitReason,
+  type RunOptions,
+  QueryFilter,
+  OptionalTerm,
+  Optional,
+  With,
+  Without,
+  Or,
+  Added,
+  Changed,
+  RelatesTo,
+  Relation,
+  Parent,
+  Children,
+  ComponentRegistry,
+  type ComponentSerializer,
+  type SerializationContext,
+  type SerializedValue,
+  serialize,
+  deserialize,
+  type EntitySnapshot,
+  type SnapshotFormat,
+  type WorldSnapshot,
+  Events,
+  EventChannels,
+  EventReader,
+  EventWriter,
+  type EventConstructor,
+  Prefabs,
+  type Prefab,
+  type PrefabComponents,
+  SystemError,
+  type ErrorPolicy,
   type ComponentConstructor,
+  type ComponentObserver,
+  type QueryComponents,
+  type QueryData,
+  type QueryTerm,
 };
 
 export default App;
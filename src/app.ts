@@ -10,18 +10,141 @@
  * import SomeComponent from "./someComponent";
  *
  * const app = new App()
- *  .addEntity(null, new SomeComponent()) // Generate a new entity with a sequential id and attach a component to it
+ *  .addEntity(null, new SomeComponent()) // Generate a new entity id and attach a component to it
  *  .addSystem(UPDATE_SCHEDULE, SomeSystem) // Add a system to the app
  *  .addHook(new SomeHook()); // Add a hook to the app
  *
- * app.run(); // Run the app
+ * const reason = await app.run(); // Run the app until it completes or is stopped
  */
 
 import type System from "./system";
+import type { SystemConstructor } from "./system";
 import type Hook from "./hook";
 import type Component from "./component";
+import type { Entity } from "./entity";
 import type Schedule from "./schedule";
-import ArchetypeTable from "./archetypeTable";
+import type { SchedulePhase } from "./schedule";
+import ArchetypeTable, {
+  type Query,
+  type ComponentConstructor,
+  type ComponentObserver,
+  type QueryComponents,
+} from "./archetypeTable";
+import CachedQuery from "./cachedQuery";
+import Commands from "./commands";
+import Resources, { type ResourceConstructor } from "./resources";
+import Runner from "./runner";
+import SystemSet, {
+  type SystemLabel,
+  type SystemOptions,
+  type SystemOrdering,
+  type SystemSetOptions,
+} from "./systemSet";
+import type { RunCondition } from "./runCondition";
+import ComponentRegistry from "./componentRegistry";
+import Prefabs, { type Prefab, type PrefabComponents } from "./prefabs";
+import { EventChannels, type EventConstructor } from "./events";
+import SystemError, { type ErrorPolicy } from "./systemError";
+import BatchSystem from "./batchSystem";
+
+/**
+ * Options for configuring an app.
+ */
+export interface AppOptions {
+  /**
+   * When the commands recorded by systems are applied to the archetype table. With `"system"`, they are applied after each system.
+   * With `"schedule"`, they are applied after all systems of a schedule have ran. Defaults to `"system"`.
+   */
+  commandsSyncPoint?: "system" | "schedule";
+  /**
+   * How the systems of a schedule run. With `"sequential"`, they run one after another. With `"concurrent"`, consecutive systems whose
+   * declared component and resource access doesn't conflict, and which are not ordered relative to each other, are started together as a
+   * batch, so that their async work overlaps. All systems run on the main thread, so synchronous systems still run one after another.
+   * With the `"system"` sync point, commands are applied after each batch. Defaults to `"sequential"`.
+   */
+  executor?: "sequential" | "concurrent";
+  /**
+   * The registry of component types, used to construct the components of prefabs. Defaults to an empty `ComponentRegistry`.
+   */
+  registry?: ComponentRegistry;
+  /**
+   * What happens when a system fails to update an entity, unless the system was added with a policy of its own. Defaults to `"abort"`.
+   */
+  errorPolicy?: ErrorPolicy;
+}
+
+/**
+ * Options for running an app.
+ */
+export interface RunOptions {
+  /**
+   * The runner which decides when the app runs its next frame. Defaults to a `Runner`, which yields to the event loop between frames.
+   */
+  runner?: Runner;
+  /**
+   * A signal which stops the app when it is aborted. The app finishes its current frame before it stops.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The reason why an app stopped running. `"completed"` means that none of the main schedules should run, `"stopped"` means that `App.stop`
+ * was called, `"aborted"` means that the signal passed to `App.run` was aborted, and `"failed"` means that an error was thrown, e.g. by a
+ * system with the `"abort"` error policy.
+ */
+export type AppExitReason = "completed" | "stopped" | "aborted" | "failed";
+
+/**
+ * A system which was added to an app, with the schedule it runs on, its sets, ordering constraints and run condition.
+ */
+interface ScheduledSystem extends Required<SystemOrdering> {
+  /**
+   * The schedule which the system runs on.
+   */
+  schedule: Schedule;
+  /**
+   * The system instance.
+   */
+  system: System<QueryComponents>;
+  /**
+   * The commands of the system, a fork of the commands of the app, so that failed commands are reported as errors of the system.
+   */
+  commands: Commands;
+  /**
+   * The sets which the system belongs to.
+   */
+  sets: SystemSet[];
+  /**
+   * The condition which must be met for the system to run, if any.
+   */
+  runIf: RunCondition | undefined;
+  /**
+   * The error policy of the system, if it has one of its own.
+   */
+  errorPolicy: ErrorPolicy | undefined;
+  /**
+   * The number of times the system has failed to update an entity.
+   */
+  failures: number;
+  /**
+   * Whether the system was disabled by its error policy.
+   */
+  disabled: boolean;
+  /**
+   * Whether the `init` method of the system has ran, and its `teardown` method has not.
+   */
+  initialized: boolean;
+}
+
+/**
+ * The configuration of a system set.
+ */
+interface SetConfig extends Required<SystemOrdering> {
+  /**
+   * The conditions which must all be met for the systems of the set to run.
+   */
+  runIf: RunCondition[];
+}
 
 /**
  * The main class for the ECS. This class is responsible for managing entities, systems, and hooks. It also runs the main loop of the ECS.
@@ -35,20 +158,32 @@ export default class App {
   /**
    * The systems that are scheduled to run. Each system is associated with a schedule.
    */
-  private scheduledSystems: {
-    schedule: Schedule;
-    system: System<Component[]>;
-  }[] = [];
+  private scheduledSystems: ScheduledSystem[] = [];
 
   /**
-   * The hooks that are attached to the app.
+   * The ordering constraints and run conditions of system sets.
    */
-  private hooks: Hook[] = [];
+  private setConfigs = new Map<SystemSet, SetConfig>();
+
+  /**
+   * The systems of each schedule in the order in which they run. Cleared whenever systems or ordering constraints are added.
+   */
+  private systemOrders = new Map<Schedule, ScheduledSystem[]>();
 
   /**
-   * The last entity id that was generated. Used for generating new sequential entity ids.
+   * The batches of systems of each schedule which are started together with the concurrent executor. Cleared along with `systemOrders`.
    */
-  private lastEntityId = 0;
+  private systemBatches = new Map<Schedule, ScheduledSystem[][]>();
+
+  /**
+   * The registered schedules, in the order in which they were registered.
+   */
+  private schedules: Schedule[] = [];
+
+  /**
+   * The hooks that are attached to the app.
+   */
+  private hooks: Hook[] = [];
 
   /**
    * The current schedule that is being ran.
@@ -56,16 +191,63 @@ export default class App {
   private currentSchedule: Schedule | null = null;
 
   /**
-   * Returns a read-only archetype table.
+   * The resources, i.e. global singletons which don't belong to any entity.
+   */
+  private resources = new Resources();
+
+  /**
+   * The commands which systems use to record structural changes.
+   */
+  private commands = new Commands(() => this.archetypeTable.allocate());
+
+  /**
+   * Aborts the current run of the app, or null if the app is not running.
+   */
+  private runController: AbortController | null = null;
+
+  /**
+   * The prefabs which entities can be spawned from. Also inserted as a resource, so that systems can spawn prefabs.
+   */
+  private prefabs: Prefabs;
+
+  /**
+   * The registered event channels. Also inserted as a resource, so that systems can read and write events.
+   */
+  private events = new EventChannels();
+
+  /**
+   * The systems which are skipped until the next frame, because they failed with the `"skip-system"` error policy.
+   */
+  private skippedSystems = new Set<ScheduledSystem>();
+
+  /**
+   * Whether any hook runs around the update of each entity. Without such hooks, entities are updated in a synchronous loop, unless the
+   * system is async. Checked every time a schedule runs.
+   */
+  private hasEntityHooks = false;
+
+  constructor(
+    /**
+     * The options of the app.
+     */
+    private options: AppOptions = {}
+  ) {
+    this.prefabs = new Prefabs(options.registry ?? new ComponentRegistry());
+    this.resources.insert(this.prefabs);
+    this.resources.insert(this.events);
+  }
+
+  /**
+   * Returns the archetype table, typed as read-only. The table itself is not frozen, since it updates its own bookkeeping (e.g. change detection ticks).
    * @returns The archetype table.
    */
   public getArchetypeTable(): Readonly<ArchetypeTable> {
-    return Object.freeze(this.archetypeTable);
+    return this.archetypeTable;
   }
 
   /**
-   * Returns the current schedule, i.e. the schedule that will be ran
-   * @returns The current schedule.
+   * Returns the current schedule, i.e. the schedule that is running, or the schedule that `advanceSchedule` advanced to.
+   * @returns The current schedule, or null if no schedule is running.
    */
   public getCurrentSchedule(): Schedule | null {
     return this.currentSchedule;
@@ -73,16 +255,15 @@ export default class App {
 
   /**
    * Adds an entity to the app and attaches components to it.
-   * @param id The id of the entity to add. If null, a new id will be generated. If there is an entity with the same id, an error will be thrown.
-   * @param components The components to attach to the entity.
+   * @param id The id of the entity to add. If null, a new id will be generated, skipping ids which were chosen explicitly and recycling the ids of
+   * deleted entities. If there is an entity with the same id, or the id is stale (i.e. the id of a deleted entity), an error will be thrown.
+   * @param components The components to attach to the entity. If multiple components have the same type, an error will be thrown.
    * @returns The app instance.
    */
-  public addEntity(id: number | null, ...components: Component[]): this {
+  public addEntity(id: Entity | null, ...components: Component[]): this {
     if (id === null) {
-      id = this.lastEntityId++;
-    }
-
-    if (this.archetypeTable.exists(id)) {
+      id = this.archetypeTable.allocate();
+    } else if (this.archetypeTable.exists(id)) {
       throw new Error(`Entity with id ${id.toString()} already exists`);
     }
 
@@ -92,28 +273,315 @@ export default class App {
   }
 
   /**
-   * Adds a system to the app.
+   * Adds a prefab, which entities can be spawned from with `spawnPrefab`.
+   * @param name The name of the prefab.
+   * @param prefab The prefab. Its components are keyed by the names of their types in the component registry.
+   * @returns The app instance.
+   */
+  public addPrefab(name: string, prefab: Prefab): this {
+    this.prefabs.add(name, prefab);
+
+    return this;
+  }
+
+  /**
+   * Adds the prefabs of a JSON scene file, which is an object of prefabs keyed by their name.
+   * @param json The contents of the scene file.
+   * @returns The app instance.
+   */
+  public loadPrefabs(json: string): this {
+    this.prefabs.load(json);
+
+    return this;
+  }
+
+  /**
+   * Spawns an entity from a prefab, along with its children.
+   * @param name The name of the prefab. If there is no prefab with the name, an error will be thrown.
+   * @param overrides Component data which overrides the data of the prefab, keyed by the names of the component types.
+   * @returns The id of the new entity.
+   */
+  public spawnPrefab(name: string, overrides: PrefabComponents = {}): Entity {
+    /**
+     * Commands which are applied right away, separate from the commands of systems.
+     */
+    const commands = new Commands(() => this.archetypeTable.allocate());
+    /**
+     * The new entity.
+     */
+    const entity = this.prefabs.spawn(commands, name, overrides);
+
+    commands.apply(this.archetypeTable);
+
+    return entity;
+  }
+
+  /**
+   * Checks if an entity is alive, i.e. its id was generated or used and the entity has not been deleted since. Ids of deleted entities are stale,
+   * even after their index has been recycled for a new entity.
+   * @param id The id of the entity to check.
+   * @returns True if the entity is alive, false otherwise.
+   */
+  public isAlive(id: Entity): boolean {
+    return this.archetypeTable.isAlive(id);
+  }
+
+  /**
+   * Removes components from an entity. Component types which the entity does not have are ignored.
+   *
+   * An entity whose last component is removed still exists, without any components, and its id stays taken.
+   * @param id The id of the entity to remove the components from. If there is no entity with the id, an error will be thrown.
+   * @param components The component types to remove. Specified as classes, not instances.
+   * @returns The app instance.
+   */
+  public removeComponents(
+    id: Entity,
+    ...components: ComponentConstructor[]
+  ): this {
+    if (!this.archetypeTable.exists(id)) {
+      throw new Error(`Entity with id ${id.toString()} does not exist`);
+    }
+
+    this.archetypeTable.removeAll(id, components);
+
+    return this;
+  }
+
+  /**
+   * Observes the lifecycle of components of a type: when they are added, replaced or removed, and when their entity is deleted.
+   * @param type The component type.
+   * @param observer The observer.
+   * @returns The app instance.
+   */
+  public addObserver<T extends Component>(
+    type: ComponentConstructor<T>,
+    observer: ComponentObserver<T>
+  ): this {
+    this.archetypeTable.observe(type, observer);
+
+    return this;
+  }
+
+  /**
+   * Adds a system to the app. Systems of a schedule run in the order in which they were added, unless ordering constraints say otherwise.
    * @param schedule The schedule to run the system on.
    * @param system The system to add.
+   * @param options The sets of the system, its ordering constraints and its run condition.
    * @returns The app instance.
    */
-  public addSystem<T extends Component[]>(
+  public addSystem<T extends QueryComponents>(
     schedule: Schedule,
-    system: new (archetypeTable: ArchetypeTable) => System<T>
+    system: SystemConstructor<T>,
+    options: SystemOptions = {}
   ): this {
     /**
-     * A new instance of the system class with the archetype table.
+     * The commands of the system.
+     */
+    const commands = this.commands.fork();
+    /**
+     * A new instance of the system class with the archetype table, commands and resources.
      */
-    const systemInstance = new system(this.archetypeTable);
+    const systemInstance = new system(
+      this.archetypeTable,
+      commands,
+      this.resources
+    );
 
+    this.addSchedule(schedule);
     this.scheduledSystems.push({
       schedule,
       system: systemInstance,
+      commands,
+      sets: options.sets ?? [],
+      before: options.before ?? [],
+      after: options.after ?? [],
+      runIf: options.runIf,
+      errorPolicy: options.errorPolicy,
+      failures: 0,
+      disabled: false,
+      initialized: false,
+    });
+    this.systemOrders.clear();
+    this.systemBatches.clear();
+
+    return this;
+  }
+
+  /**
+   * Adds ordering constraints and a run condition to a system set, which apply to every system in the set, in every schedule.
+   * @param set The set to configure.
+   * @param options The ordering constraints and run condition of the set. They are added to the existing ones of the set.
+   * @returns The app instance.
+   */
+  public configureSet(set: SystemSet, options: SystemSetOptions): this {
+    /**
+     * The existing configuration of the set.
+     */
+    const existing = this.setConfigs.get(set);
+
+    this.setConfigs.set(set, {
+      before: [...(existing?.before ?? []), ...(options.before ?? [])],
+      after: [...(existing?.after ?? []), ...(options.after ?? [])],
+      runIf: [
+        ...(existing?.runIf ?? []),
+        ...(options.runIf ? [options.runIf] : []),
+      ],
     });
+    this.systemOrders.clear();
+    this.systemBatches.clear();
+
+    return this;
+  }
+
+  /**
+   * Enables the systems of a class which were disabled by their error policy, and resets their number of failures.
+   * @param system The class of the systems.
+   * @returns The app instance.
+   */
+  public enableSystem(system: SystemConstructor): this {
+    for (const scheduledSystem of this.scheduledSystems) {
+      if (scheduledSystem.system instanceof system) {
+        scheduledSystem.failures = 0;
+        scheduledSystem.disabled = false;
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks if any system of a class was disabled by its error policy.
+   * @param system The class of the systems.
+   * @returns True if a system of the class is disabled, false otherwise.
+   */
+  public isSystemDisabled(system: SystemConstructor): boolean {
+    return this.scheduledSystems.some(
+      scheduledSystem =>
+        scheduledSystem.system instanceof system && scheduledSystem.disabled
+    );
+  }
+
+  /**
+   * Returns the systems of a schedule in the order in which they run, as resolved from their ordering constraints.
+   * @param schedule The schedule of the systems.
+   * @returns The systems.
+   * @throws If the ordering constraints of the systems form a cycle.
+   */
+  public getSystemOrder(schedule: Schedule): System<QueryComponents>[] {
+    return this.getOrderedSystems(schedule).map(
+      scheduledSystem => scheduledSystem.system
+    );
+  }
+
+  /**
+   * Registers a schedule, so that the app runs it in its phase even if it has no systems yet. Schedules are also registered when a system is
+   * added to them. Registering a schedule again does nothing.
+   * @param schedule The schedule to register.
+   * @returns The app instance.
+   */
+  public addSchedule(schedule: Schedule): this {
+    if (!this.schedules.includes(schedule)) {
+      this.schedules.push(schedule);
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns the registered schedules of a phase, in the order in which they run.
+   * @param phase The phase of the schedules.
+   * @returns The schedules, sorted in ascending order. Schedules with the same order keep the order in which they were registered.
+   */
+  public getSchedules(phase: SchedulePhase): Schedule[] {
+    return this.schedules
+      .filter(schedule => schedule.phase === phase)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Inserts a resource, replacing the existing resource of the same class.
+   * @param resource The resource to insert.
+   * @returns The app instance.
+   */
+  public insertResource(resource: object): this {
+    this.resources.insert(resource);
+
+    return this;
+  }
+
+  /**
+   * Gets a resource.
+   * @param resource The class of the resource.
+   * @returns The resource, or undefined if it does not exist.
+   */
+  public getResource<T extends object>(
+    resource: ResourceConstructor<T>
+  ): T | undefined {
+    return this.resources.get(resource);
+  }
+
+  /**
+   * Removes a resource.
+   * @param resource The class of the resource.
+   * @returns The app instance.
+   */
+  public removeResource(resource: ResourceConstructor): this {
+    this.resources.remove(resource);
+
+    return this;
+  }
+
+  /**
+   * Registers an event class, so that systems can read and write events of it through the `EventChannels` resource.
+   * @param type The event class. Registering it again does nothing.
+   * @returns The app instance.
+   */
+  public addEvent(type: EventConstructor): this {
+    this.events.add(type);
+
+    return this;
+  }
+
+  /**
+   * Sends an event from outside of systems, e.g. from an input handler.
+   * @param event The event. If its class is not registered, an error will be thrown.
+   * @returns The app instance.
+   */
+  public sendEvent(event: object): this {
+    this.events.get(event.constructor as EventConstructor).send(event);
 
     return this;
   }
 
+  /**
+   * Ends the frame of the events: passes the events sent during the frame to the hooks, and then swaps the event buffers, dropping the
+   * events of the previous frame. Also runs the systems again which were skipped for the frame by their error policy. Called by `run`
+   * after every frame. When running schedules one by one with `step`, call it once every frame.
+   */
+  public async updateEvents(): Promise<void> {
+    /**
+     * The events sent during the frame.
+     */
+    const events = this.events.getCurrent();
+
+    for (const hook of this.hooks) {
+      if (hook.beforeEventsUpdate) {
+        await hook.beforeEventsUpdate(events);
+      }
+    }
+
+    this.events.update();
+  }
+
+  /**
+   * Lets the systems which were skipped by the `"skip-system"` error policy run again. Called by `run` at the start of every frame, and by
+   * `advanceSchedule` when it wraps around to the first main schedule. When running schedules one by one with `step`, call it at the start
+   * of every frame.
+   */
+  public resetSkippedSystems(): void {
+    this.skippedSystems.clear();
+  }
+
   /**
    * Adds a lifecycle hook to the app.
    * @param hook The hook to add.
@@ -126,105 +594,907 @@ export default class App {
   }
 
   /**
-   * Runs systems for a given schedule.
+   * Runs the systems of a schedule once, regardless of its phase and whether it should run.
    * @param schedule The schedule to run systems for.
    */
   public async step(schedule: Schedule): Promise<void> {
     /**
-     * The systems that are scheduled to run on the given schedule.
+     * The batches of systems that are scheduled to run on the given schedule, in order. Sequentially, every system is a batch of its own.
      */
-    const scheduledSystems = this.scheduledSystems.filter(
-      scheduledSystem => scheduledSystem.schedule === schedule
-    );
+    const batches =
+      this.options.executor === "concurrent"
+        ? this.getBatchedSystems(schedule)
+        : this.getOrderedSystems(schedule).map(system => [system]);
 
-    for (const scheduledSystem of scheduledSystems) {
-      /**
-       * The queries for the system, as defined by the system's `select` method.
-       */
-      const queries = scheduledSystem.system.select();
+    this.hasEntityHooks = this.hooks.some(
+      hook =>
+        hook.shouldUpdateEntity !== undefined ||
+        hook.beforeEntityUpdate !== undefined ||
+        hook.afterEntityUpdate !== undefined
+    );
 
-      // If there are no queries, skip the system.
-      if (queries.length === 0) {
-        continue;
+    for (const hook of this.hooks) {
+      if (hook.beforeSchedule) {
+        await hook.beforeSchedule(schedule);
       }
+    }
 
-      // Run hooks before the system update.
-      for (const hook of this.hooks) {
-        if (hook.beforeSystemUpdate) {
-          await hook.beforeSystemUpdate(scheduledSystem.system, queries);
-        }
-      }
+    // Hooks are notified that the schedule finished even if a system failed, so that they can pair it with `beforeSchedule`.
+    try {
+      schedule.prepare?.(this.resources);
 
-      // Run the system update for each query.
-      for (const query of queries) {
+      /**
+       * Whether the run conditions of each set are met, so that they are checked at most once per step.
+       */
+      const setConditions = new Map<SystemSet, boolean>();
+
+      for (const batch of batches) {
         /**
-         * The result of the system update. Used for handling Promises.
+         * Whether each system of the batch ran.
          */
-        const res = scheduledSystem.system.update(
-          query.entity,
-          query.components
+        const ran = await Promise.all(
+          batch.map(scheduledSystem =>
+            this.runSystem(scheduledSystem, setConditions)
+          )
         );
 
-        // Properly handle async system updates.
-        if (res instanceof Promise) {
-          await res;
+        // If none of the systems ran, there is nothing to apply.
+        if (!ran.includes(true)) {
+          continue;
+        }
+
+        if (this.options.commandsSyncPoint !== "schedule") {
+          await this.applyCommands();
         }
+
+        // Changes made by the systems are detected by cached queries which ran before them, including the systems' own queries on their next run.
+        this.archetypeTable.advanceTick();
       }
 
-      // Run hooks after the system update.
+      if (this.options.commandsSyncPoint === "schedule") {
+        await this.applyCommands();
+      }
+    } finally {
       for (const hook of this.hooks) {
-        if (hook.afterSystemUpdate) {
-          await hook.afterSystemUpdate(scheduledSystem.system, queries);
+        if (hook.afterSchedule) {
+          await hook.afterSchedule(schedule);
         }
       }
     }
   }
 
   /**
-   * Advances the current schedule to the next one if possible.
+   * Runs the `teardown` method of every initialized system, so that they are initialized again if the app runs again. Called by `run` after
+   * the shutdown schedules, or when a system failed. When running schedules one by one with `step`, call it once when done.
    */
-  public advanceSchedule(): void {
-    if (this.scheduledSystems.length === 0) {
-      throw new Error("No systems to run");
-    }
-
-    /**
-     * The schedules that are associated with the systems. Schedules cannot be added manually - they are derived from the systems.
-     */
-    const schedules: Schedule[] = this.scheduledSystems.map(
-      scheduledSystem => scheduledSystem.schedule
-    );
-
-    // First run,
-    if (this.currentSchedule === null) {
-      // Sorted in ascending order so that the schedule with the lowest order value is ran first.
-      schedules.sort((a, b) => a.order - b.order);
-
-      this.currentSchedule = schedules[0] ?? null;
-    } else {
-      this.currentSchedule =
-        schedules[schedules.indexOf(this.currentSchedule) + 1] ?? null;
+  public async teardownSystems(): Promise<void> {
+    for (const scheduledSystem of this.scheduledSystems) {
+      if (scheduledSystem.initialized) {
+        scheduledSystem.initialized = false;
+        await scheduledSystem.system.teardown?.();
+      }
     }
   }
 
   /**
-   * Runs systems and hooks according to each schedule in an infinite loop.
+   * Returns the systems of a schedule grouped into the batches which the concurrent executor starts together.
+   * @param schedule The schedule of the systems.
+   * @returns The batches of systems, in order.
+   * @throws If the ordering constraints of the systems form a cycle.
    */
-  public async run(): Promise<void> {
-    this.advanceSchedule();
+  public getSystemBatches(schedule: Schedule): System<QueryComponents>[][] {
+    return this.getBatchedSystems(schedule).map(batch =>
+      batch.map(scheduledSystem => scheduledSystem.system)
+    );
+  }
+
+  /**
+   * Advances the current schedule to the next one, i.e. through the startup schedules, and then through the main schedules, wrapping around
+   * to the first main schedule after the last one. Used to run schedules one by one with `step`, instead of `run`.
+   */
+  public advanceSchedule(): void {
+    /**
+     * The startup schedules, which run once.
+     */
+    const startup = this.getSchedules("startup");
+    /**
+     * The main schedules, which repeat every frame.
+     */
+    const main = this.getSchedules("main");
+    /**
+     * The schedules in the order in which they run.
+     */
+    const schedules = [...startup, ...main];
+
+    if (schedules.length === 0) {
+      throw new Error("No schedules to run");
+    }
+
+    /**
+     * The index of the current schedule, or -1 if there is none.
+     */
+    const index =
+      this.currentSchedule === null
+        ? -1
+        : schedules.indexOf(this.currentSchedule);
+
+    /**
+     * The next schedule, if the current one is not the last.
+     */
+    const next = schedules[index + 1];
+
+    if (next) {
+      this.currentSchedule = next;
+    } else {
+      // A new frame starts.
+      this.resetSkippedSystems();
+      this.currentSchedule = main[0] ?? schedules[0] ?? null;
+    }
+  }
+
+  /**
+   * Checks if the app is running, i.e. `run` was called and has not resolved yet.
+   * @returns True if the app is running, false otherwise.
+   */
+  public isRunning(): boolean {
+    return this.runController !== null;
+  }
+
+  /**
+   * Stops the app once its current frame has finished. Does nothing if the app is not running.
+   * @returns The app instance.
+   */
+  public stop(): this {
+    this.runController?.abort("stopped");
+
+    return this;
+  }
+
+  /**
+   * Runs the startup schedules once, then the main schedules every frame, and finally the shutdown schedules once. Frames repeat until none
+   * of the main schedules should run, or the app is stopped. The runner decides when the next frame runs.
+   * @param options The options of the run.
+   * @returns A promise which resolves with the reason why the app stopped running.
+   */
+  public async run(options: RunOptions = {}): Promise<AppExitReason> {
+    if (this.runController !== null) {
+      throw new Error("App is already running");
+    }
+
+    if (options.signal?.aborted) {
+      return "aborted";
+    }
+
+    /**
+     * The runner which decides when the next frame runs.
+     */
+    const runner = options.runner ?? new Runner();
+    /**
+     * Aborts this run of the app.
+     */
+    const controller = new AbortController();
+    /**
+     * Aborts this run of the app when the signal passed by the caller is aborted.
+     */
+    const onAbort = () => {
+      controller.abort("aborted");
+    };
+
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    this.runController = controller;
+
+    /**
+     * The reason why the app stopped running, `"failed"` until it stops without an error.
+     */
+    let exitReason: AppExitReason = "failed";
+
+    try {
+      for (const hook of this.hooks) {
+        if (hook.onStart) {
+          await hook.onStart();
+        }
+      }
+
+      for (const schedule of this.schedules) {
+        schedule.reset?.(this.resources);
+      }
+
+      await runner.wait(controller.signal);
+      await this.runPhase("startup");
+
+      /**
+       * The reason why the app stopped running.
+       */
+      let reason: AppExitReason | null = null;
+      /**
+       * The number of the current frame.
+       */
+      let frame = 0;
+
+      while (reason === null) {
+        if (controller.signal.aborted) {
+          reason = controller.signal.reason as AppExitReason;
+          continue;
+        }
+
+        this.resetSkippedSystems();
+
+        for (const hook of this.hooks) {
+          if (hook.beforeFrame) {
+            await hook.beforeFrame(frame);
+          }
+        }
+
+        if (await this.runPhase("main")) {
+          await this.updateEvents();
+
+          for (const hook of this.hooks) {
+            if (hook.afterFrame) {
+              await hook.afterFrame(frame);
+            }
+          }
+
+          frame++;
+          await runner.wait(controller.signal);
+        } else {
+          reason = "completed";
+        }
+      }
+
+      await this.runPhase("shutdown");
+      exitReason = reason;
+
+      return reason;
+    } finally {
+      try {
+        // Systems are torn down and hooks are notified even if a system failed.
+        await this.teardownSystems();
+
+        for (const hook of this.hooks) {
+          if (hook.onStop) {
+            await hook.onStop(exitReason);
+          }
+        }
+      } finally {
+        options.signal?.removeEventListener("abort", onAbort);
+        this.runController = null;
+        this.currentSchedule = null;
+        runner.finish?.();
+      }
+    }
+  }
+
+  /**
+   * Runs the schedules of a phase which should run, one after another.
+   * @param phase The phase of the schedules.
+   * @returns True if any schedule ran, false otherwise.
+   */
+  private async runPhase(phase: SchedulePhase): Promise<boolean> {
+    /**
+     * Whether any schedule ran.
+     */
+    let ran = false;
+
+    for (const schedule of this.getSchedules(phase)) {
+      if (!schedule.shouldRun()) {
+        continue;
+      }
+
+      ran = true;
+      this.currentSchedule = schedule;
+
+      /**
+       * How many times the systems of the schedule should run.
+       */
+      const stepCount = schedule.getStepCount?.(this.resources) ?? 1;
+
+      for (let i = 0; i < stepCount; i++) {
+        await this.step(schedule);
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Runs a system once for every entity it selects, or once for all of them if it is a batched system, along with the hooks around it.
+   * @param scheduledSystem The system to run.
+   * @param setConditions Whether the run conditions of each set are met, for sets which were already checked during the current step.
+   * @returns True if the system ran, false if it was skipped because of its run conditions or because it selected no entities.
+   */
+  private async runSystem(
+    scheduledSystem: ScheduledSystem,
+    setConditions: Map<SystemSet, boolean>
+  ): Promise<boolean> {
+    if (!this.shouldRunSystem(scheduledSystem, setConditions)) {
+      return false;
+    }
+
+    if (!scheduledSystem.initialized) {
+      await scheduledSystem.system.init?.();
+      scheduledSystem.initialized = true;
+    }
+
+    /**
+     * The resources which the system declared to read or write.
+     */
+    const resourceAccess = scheduledSystem.system.resourceAccess;
+
+    for (const resource of [
+      ...(resourceAccess?.read ?? []),
+      ...(resourceAccess?.write ?? []),
+    ]) {
+      if (!this.resources.has(resource)) {
+        await this.handleSystemError(
+          scheduledSystem,
+          new Error(`Required resource '${resource.name}' does not exist`),
+          undefined
+        );
+
+        return false;
+      }
+    }
+
+    /**
+     * The selection of the system, as defined by the system's `select` method.
+     */
+    const selection = scheduledSystem.system.select();
+    /**
+     * The queries for the system. Cached queries are collected into a snapshot, so that the system can safely change the archetype table while updating.
+     */
+    const queries =
+      selection instanceof CachedQuery ? selection.toArray() : selection;
+
+    // If there are no queries, skip the system. Batched systems always run, e.g. for per-frame setup.
+    if (
+      queries.length === 0 &&
+      !(scheduledSystem.system instanceof BatchSystem)
+    ) {
+      return false;
+    }
+
+    // Any hook can skip the system.
+    for (const hook of this.hooks) {
+      if (
+        hook.shouldRunSystem &&
+        !(await hook.shouldRunSystem(scheduledSystem.system, queries))
+      ) {
+        return false;
+      }
+    }
+
+    // Run hooks before the system update.
+    for (const hook of this.hooks) {
+      if (hook.beforeSystemUpdate) {
+        await hook.beforeSystemUpdate(scheduledSystem.system, queries);
+      }
+    }
+
+    if (scheduledSystem.system instanceof BatchSystem) {
+      // Run the system update for all queries at once.
+      try {
+        await scheduledSystem.system.run(queries);
+      } catch (error) {
+        await this.handleSystemError(scheduledSystem, error, undefined);
+      }
+    } else {
+      // Run the system update for each query, until its error policy skips the rest. Only async updates are awaited.
+      for (const query of queries) {
+        /**
+         * Whether the system should keep updating entities, or a promise of it if the update is async.
+         */
+        let keepUpdating = this.hasEntityHooks
+          ? this.updateEntity(scheduledSystem, query)
+          : this.updateEntityWithoutHooks(scheduledSystem, query);
+
+        if (keepUpdating instanceof Promise) {
+          keepUpdating = await keepUpdating;
+        }
+
+        if (!keepUpdating) {
+          break;
+        }
+      }
+    }
+
+    // Run hooks after the system update.
+    for (const hook of this.hooks) {
+      if (hook.afterSystemUpdate) {
+        await hook.afterSystemUpdate(scheduledSystem.system, queries);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Updates an entity with a system, along with the hooks around it. Errors of the system are handled by its error policy.
+   * @param scheduledSystem The system.
+   * @param query The entity and its selected components.
+   * @returns True if the system should keep updating entities, false if its error policy skips the rest.
+   * @throws A `SystemError` wrapping the error of the system if its error policy is `"abort"`, after the hooks have been notified of it.
+   */
+  private async updateEntity(
+    scheduledSystem: ScheduledSystem,
+    query: Query<QueryComponents>
+  ): Promise<boolean> {
+    /**
+     * The system instance.
+     */
+    const system = scheduledSystem.system;
+
+    // Any hook can skip the entity.
+    for (const hook of this.hooks) {
+      if (
+        hook.shouldUpdateEntity &&
+        !(await hook.shouldUpdateEntity(system, query))
+      ) {
+        return true;
+      }
+    }
+
+    for (const hook of this.hooks) {
+      if (hook.beforeEntityUpdate) {
+        await hook.beforeEntityUpdate(system, query);
+      }
+    }
+
+    try {
+      /**
+       * The result of the system update. Used for handling Promises.
+       */
+      const res = system.update(query.entity, query.components);
+
+      // Properly handle async system updates.
+      if (res instanceof Promise) {
+        await res;
+      }
+    } catch (error) {
+      return this.handleSystemError(scheduledSystem, error, query);
+    }
+
+    for (const hook of this.hooks) {
+      if (hook.afterEntityUpdate) {
+        await hook.afterEntityUpdate(system, query);
+      }
+    }
+
+    return true;
+  }
 
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    while (true) {
-      // No more schedules to run - end of app lifecycle.
-      if (this.currentSchedule === null) {
-        break;
+  /**
+   * Updates an entity with a system, when no hook runs around the update. Returns synchronously unless the update is async.
+   * @param scheduledSystem The system.
+   * @param query The entity and its selected components.
+   * @returns True if the system should keep updating entities, false if its error policy skips the rest, or a promise of it.
+   * @throws A `SystemError` wrapping the error of the system if its error policy is `"abort"`.
+   */
+  private updateEntityWithoutHooks(
+    scheduledSystem: ScheduledSystem,
+    query: Query<QueryComponents>
+  ): boolean | Promise<boolean> {
+    try {
+      /**
+       * The result of the system update. Used for handling Promises.
+       */
+      const res = scheduledSystem.system.update(query.entity, query.components);
+
+      if (res instanceof Promise) {
+        return res.then(
+          () => true,
+          (error: unknown) =>
+            this.handleSystemError(scheduledSystem, error, query)
+        );
+      }
+
+      return true;
+    } catch (error) {
+      return this.handleSystemError(scheduledSystem, error, query);
+    }
+  }
+
+  /**
+   * Wraps an error of a system, reports it to the hooks, and applies the error policy of the system.
+   * @param scheduledSystem The system that failed.
+   * @param error The thrown error.
+   * @param query The entity which the system was updating and its selected components, or undefined for batched systems.
+   * @param entity The entity which the error is about, e.g. the entity of a failed command. Defaults to the entity of the query.
+   * @returns True if the system should keep updating entities, false if its error policy skips the rest.
+   * @throws A `SystemError` wrapping the error if the error policy is `"abort"`.
+   */
+  private async handleSystemError(
+    scheduledSystem: ScheduledSystem,
+    error: unknown,
+    query: Query<QueryComponents> | undefined,
+    entity: Entity | undefined = query?.entity
+  ): Promise<boolean> {
+    /**
+     * The error policy of the system.
+     */
+    const policy =
+      scheduledSystem.errorPolicy ?? this.options.errorPolicy ?? "abort";
+    /**
+     * The error of the system, along with where it happened.
+     */
+    const systemError = new SystemError(
+      scheduledSystem.system,
+      scheduledSystem.schedule,
+      entity,
+      ++scheduledSystem.failures,
+      policy,
+      error
+    );
+
+    for (const hook of this.hooks) {
+      if (hook.onSystemError) {
+        await hook.onSystemError(scheduledSystem.system, systemError, query);
+      }
+    }
+
+    if (policy === "abort") {
+      throw systemError;
+    }
+
+    if (policy === "skip-system") {
+      this.skippedSystems.add(scheduledSystem);
+      return false;
+    }
+
+    if (
+      typeof policy === "object" &&
+      scheduledSystem.failures >= policy.disableAfter
+    ) {
+      scheduledSystem.disabled = true;
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks the run conditions of a system and its sets, and whether its error policy disabled or skipped it.
+   * @param scheduledSystem The system to check.
+   * @param setConditions Whether the run conditions of each set are met, for sets which were already checked during the current step.
+   * @returns True if the system is enabled and all run conditions are met, false otherwise.
+   */
+  private shouldRunSystem(
+    scheduledSystem: ScheduledSystem,
+    setConditions: Map<SystemSet, boolean>
+  ): boolean {
+    if (scheduledSystem.disabled || this.skippedSystems.has(scheduledSystem)) {
+      return false;
+    }
+
+    for (const set of scheduledSystem.sets) {
+      /**
+       * Whether the run conditions of the set are met, if they were already checked.
+       */
+      let met = setConditions.get(set);
+
+      if (met === undefined) {
+        met = (this.setConfigs.get(set)?.runIf ?? []).every(condition =>
+          condition(this.resources)
+        );
+        setConditions.set(set, met);
+      }
+
+      if (!met) {
+        return false;
+      }
+    }
+
+    return scheduledSystem.runIf?.(this.resources) ?? true;
+  }
+
+  /**
+   * Sorts the systems of a schedule by their ordering constraints, keeping the order in which they were added where there are none.
+   * @param schedule The schedule of the systems.
+   * @returns The sorted systems.
+   * @throws If the ordering constraints of the systems form a cycle.
+   */
+  private getOrderedSystems(schedule: Schedule): ScheduledSystem[] {
+    /**
+     * The previously sorted systems, if the systems have not changed since.
+     */
+    const cached = this.systemOrders.get(schedule);
+
+    if (cached) {
+      return cached;
+    }
+
+    /**
+     * The systems of the schedule, in the order in which they were added.
+     */
+    const systems = this.scheduledSystems.filter(
+      scheduledSystem => scheduledSystem.schedule === schedule
+    );
+    /**
+     * For each system, the indices of the systems which must run before it.
+     */
+    const dependencies = this.getDependencies(systems);
+
+    /**
+     * The sorted systems.
+     */
+    const sorted: ScheduledSystem[] = [];
+    /**
+     * The indices of the sorted systems.
+     */
+    const done = new Set<number>();
+
+    while (sorted.length < systems.length) {
+      /**
+       * The first system which has not been sorted yet and whose dependencies have all been sorted.
+       */
+      const next = systems.findIndex(
+        (_, index) =>
+          !done.has(index) &&
+          [...(dependencies[index] ?? [])].every(dependency =>
+            done.has(dependency)
+          )
+      );
+      /**
+       * The system at that index.
+       */
+      const system = systems[next];
+
+      if (!system) {
+        throw new Error(
+          `Systems in schedule '${schedule.name}' have cyclic ordering constraints: ${this.findCycle(
+            systems,
+            dependencies,
+            done
+          )}`
+        );
+      }
+
+      done.add(next);
+      sorted.push(system);
+    }
+
+    this.systemOrders.set(schedule, sorted);
+
+    return sorted;
+  }
+
+  /**
+   * Resolves the ordering constraints of systems, including those of their sets.
+   * @param systems The systems to resolve the constraints of.
+   * @returns For each system, the indices of the systems which must run before it.
+   */
+  private getDependencies(systems: ScheduledSystem[]): Set<number>[] {
+    /**
+     * For each system, the indices of the systems which must run before it.
+     */
+    const dependencies = systems.map(() => new Set<number>());
+
+    systems.forEach((system, index) => {
+      /**
+       * The systems which must run after the system, including those which must run after its sets.
+       */
+      const before = [
+        ...system.before,
+        ...system.sets.flatMap(set => this.setConfigs.get(set)?.before ?? []),
+      ];
+      /**
+       * The systems which must run before the system, including those which must run before its sets.
+       */
+      const after = [
+        ...system.after,
+        ...system.sets.flatMap(set => this.setConfigs.get(set)?.after ?? []),
+      ];
+
+      systems.forEach((other, otherIndex) => {
+        if (otherIndex === index) {
+          return;
+        }
+
+        if (before.some(label => this.matchesLabel(other, label))) {
+          dependencies[otherIndex]?.add(index);
+        }
+
+        if (after.some(label => this.matchesLabel(other, label))) {
+          dependencies[index]?.add(otherIndex);
+        }
+      });
+    });
+
+    return dependencies;
+  }
+
+  /**
+   * Groups the systems of a schedule into batches which don't conflict and are not ordered relative to each other, keeping their order.
+   * @param schedule The schedule of the systems.
+   * @returns The batches of systems.
+   * @throws If the ordering constraints of the systems form a cycle.
+   */
+  private getBatchedSystems(schedule: Schedule): ScheduledSystem[][] {
+    /**
+     * The previously batched systems, if the systems have not changed since.
+     */
+    const cached = this.systemBatches.get(schedule);
+
+    if (cached) {
+      return cached;
+    }
+
+    /**
+     * The systems of the schedule, in the order in which they run.
+     */
+    const systems = this.getOrderedSystems(schedule);
+    /**
+     * For each system, the indices of the systems which must run before it.
+     */
+    const dependencies = this.getDependencies(systems);
+    /**
+     * The batches of systems.
+     */
+    const batches: ScheduledSystem[][] = [];
+    /**
+     * The indices of the systems in the current batch.
+     */
+    let batch: number[] = [];
+
+    systems.forEach((system, index) => {
+      if (
+        batch.some(
+          other =>
+            dependencies[index]?.has(other) === true ||
+            this.conflicts(system, systems[other])
+        )
+      ) {
+        batches.push(batch.flatMap(other => systems[other] ?? []));
+        batch = [];
+      }
+
+      batch.push(index);
+    });
+
+    if (batch.length > 0) {
+      batches.push(batch.flatMap(other => systems[other] ?? []));
+    }
+
+    this.systemBatches.set(schedule, batches);
+
+    return batches;
+  }
+
+  /**
+   * Checks if two systems can't run at the same time, because one of them writes a component type or resource which the other one reads or
+   * writes. Systems which don't declare their component access conflict with every other system.
+   * @param a The first system.
+   * @param b The second system.
+   * @returns True if the systems conflict, false otherwise.
+   */
+  private conflicts(
+    a: ScheduledSystem,
+    b: ScheduledSystem | undefined
+  ): boolean {
+    if (!b) {
+      return false;
+    }
+
+    /**
+     * The declared access of both systems.
+     */
+    const [accessA, accessB] = [a.system, b.system].map(system =>
+      system.componentAccess
+        ? {
+            read: [
+              ...(system.componentAccess.read ?? []),
+              ...(system.resourceAccess?.read ?? []),
+            ],
+            write: [
+              ...(system.componentAccess.write ?? []),
+              ...(system.resourceAccess?.write ?? []),
+            ],
+          }
+        : undefined
+    );
+
+    if (!accessA || !accessB) {
+      return true;
+    }
+
+    return (
+      accessA.write.some(
+        type => accessB.read.includes(type) || accessB.write.includes(type)
+      ) || accessB.write.some(type => accessA.read.includes(type))
+    );
+  }
+
+  /**
+   * Checks if a label refers to a system.
+   * @param system The system to check.
+   * @param label The label to check.
+   * @returns True if the system is of the class of the label, or in the set of the label.
+   */
+  private matchesLabel(system: ScheduledSystem, label: SystemLabel): boolean {
+    return label instanceof SystemSet
+      ? system.sets.includes(label)
+      : system.system instanceof label;
+  }
+
+  /**
+   * Describes a cycle of ordering constraints among systems which could not be sorted.
+   * @param systems The systems of the schedule.
+   * @param dependencies For each system, the indices of the systems which must run before it.
+   * @param done The indices of the systems which could be sorted.
+   * @returns The names of the systems in the cycle, in the order in which they would have to run, e.g. `"A -> B -> A"`.
+   */
+  private findCycle(
+    systems: ScheduledSystem[],
+    dependencies: Set<number>[],
+    done: Set<number>
+  ): string {
+    /**
+     * The path of systems visited so far, each one a dependency of the previous one.
+     */
+    const path: number[] = [];
+    /**
+     * The current system. Every system which could not be sorted has a dependency which could not be sorted either.
+     */
+    let current = systems.findIndex((_, index) => !done.has(index));
+
+    while (!path.includes(current)) {
+      path.push(current);
+      current =
+        [...(dependencies[current] ?? [])].find(
+          dependency => !done.has(dependency)
+        ) ?? current;
+    }
+
+    return [...path.slice(path.indexOf(current)), current]
+      .reverse()
+      .map(index => systems[index]?.system.constructor.name ?? "")
+      .join(" -> ");
+  }
+
+  /**
+   * Applies the commands recorded by systems to the archetype table, notifies hooks about them and runs the recorded schedules. Commands
+   * which failed are then handled by the error policy of the system which recorded them.
+   * @throws A `SystemError` if a command failed and the error policy of its system is `"abort"`.
+   */
+  private async applyCommands(): Promise<void> {
+    if (this.commands.length === 0) {
+      return;
+    }
+
+    /**
+     * The applied and the failed commands.
+     */
+    const { applied, failures } = this.commands.flush(this.archetypeTable);
+
+    for (const hook of this.hooks) {
+      if (hook.afterCommandsFlush) {
+        await hook.afterCommandsFlush(applied);
+      }
+    }
+
+    for (const command of applied) {
+      if (command.type === "runSchedule") {
+        await this.step(command.schedule);
       }
+    }
 
-      if (this.currentSchedule.shouldRun()) {
-        await this.step(this.currentSchedule);
-      } else {
-        this.advanceSchedule();
+    for (const { command, recorder, error } of failures) {
+      /**
+       * The system which recorded the command, if a system did.
+       */
+      const scheduledSystem = this.scheduledSystems.find(
+        scheduledSystem => scheduledSystem.commands === recorder
+      );
+
+      if (!scheduledSystem) {
+        throw error;
       }
+
+      await this.handleSystemError(
+        scheduledSystem,
+        error,
+        undefined,
+        command.type === "runSchedule" ? undefined : command.entity
+      );
     }
   }
 }
@@ -0,0 +1,272 @@
+/**
+ * @module archetype.ts Contains the `Archetype` class, the storage unit of the `ArchetypeTable`.
+ */
+
+import type { ComponentConstructor } from "./archetypeTable";
+import type Component from "./component";
+import type { Entity } from "./entity";
+
+/**
+ * The transitions from one archetype to its neighbours in the archetype graph, for a single component type.
+ */
+export interface ArchetypeEdge {
+  /**
+   * The archetype an entity moves to when the component type is added to it.
+   */
+  add?: Archetype;
+  /**
+   * The archetype an entity moves to when the component type is removed from it.
+   */
+  remove?: Archetype;
+}
+
+/**
+ * The ticks at which a component was added to an entity and last changed. Used for change detection.
+ */
+export interface ComponentTicks {
+  /**
+   * The tick at which the component was added.
+   */
+  added: number;
+  /**
+   * The tick at which the component was last added, replaced or marked as changed.
+   */
+  changed: number;
+}
+
+/**
+ * An archetype groups all entities which have the exact same set of component types.
+ *
+ * Components are stored in columns, one column per component type, and one row per entity. The component of an entity
+ * for a given type is found at the same row in the corresponding column.
+ */
+export default class Archetype {
+  /**
+   * The entities stored in this archetype. The index of an entity is its row in the component columns.
+   */
+  public readonly entities: Entity[] = [];
+
+  /**
+   * The component columns, in the same order as `types`.
+   */
+  public readonly columns: Component[][];
+
+  /**
+   * The change detection ticks of the components, in the same layout as `columns`.
+   */
+  public readonly tickColumns: ComponentTicks[][];
+
+  /**
+   * The edges of the archetype graph, keyed by the component type which is added or removed.
+   */
+  public readonly edges = new Map<ComponentConstructor, ArchetypeEdge>();
+
+  /**
+   * Maps a component type to the index of its column.
+   */
+  private readonly columnIndices = new Map<ComponentConstructor, number>();
+
+  constructor(
+    /**
+     * A unique, sequential id of the archetype.
+     */
+    public readonly id: number,
+    /**
+     * The component types of the archetype, in a stable order.
+     */
+    public readonly types: readonly ComponentConstructor[]
+  ) {
+    this.columns = types.map(() => []);
+    this.tickColumns = types.map(() => []);
+    types.forEach((type, index) => this.columnIndices.set(type, index));
+  }
+
+  /**
+   * The number of entities stored in this archetype.
+   */
+  public get size(): number {
+    return this.entities.length;
+  }
+
+  /**
+   * Checks if the archetype contains a component type.
+   * @param type The component type to check.
+   * @returns True if the archetype contains the component type, false otherwise.
+   */
+  public has(type: ComponentConstructor): boolean {
+    return this.columnIndices.has(type);
+  }
+
+  /**
+   * Gets the column of a component type.
+   * @param type The component type of the column.
+   * @returns The column, or undefined if the archetype does not contain the component type.
+   */
+  public column<T extends Component>(
+    type: ComponentConstructor<T>
+  ): T[] | undefined {
+    /**
+     * The index of the column, if the archetype contains the component type.
+     */
+    const index = this.columnIndices.get(type);
+
+    if (index === undefined) {
+      return undefined;
+    }
+
+    return this.columns[index] as T[] | undefined;
+  }
+
+  /**
+   * Gets the change detection ticks of a component type.
+   * @param type The component type of the ticks.
+   * @returns The ticks, or undefined if the archetype does not contain the component type.
+   */
+  public ticks(type: ComponentConstructor): ComponentTicks[] | undefined {
+    /**
+     * The index of the column, if the archetype contains the component type.
+     */
+    const index = this.columnIndices.get(type);
+
+    if (index === undefined) {
+      return undefined;
+    }
+
+    return this.tickColumns[index];
+  }
+
+  /**
+   * Reads the components of a row.
+   * @param row The row to read.
+   * @returns The components of the row, keyed by their type.
+   */
+  public read(row: number): Map<ComponentConstructor, Component> {
+    /**
+     * The components of the row.
+     */
+    const components = new Map<ComponentConstructor, Component>();
+
+    this.types.forEach((type, index) => {
+      /**
+       * The component of the row for the current type.
+       */
+      const component = this.columns[index]?.[row];
+
+      if (component) {
+        components.set(type, component);
+      }
+    });
+
+    return components;
+  }
+
+  /**
+   * Reads the change detection ticks of a row.
+   * @param row The row to read.
+   * @returns The ticks of the components of the row, keyed by their type.
+   */
+  public readTicks(row: number): Map<ComponentConstructor, ComponentTicks> {
+    /**
+     * The ticks of the row.
+     */
+    const ticks = new Map<ComponentConstructor, ComponentTicks>();
+
+    this.types.forEach((type, index) => {
+      /**
+       * The ticks of the row for the current type.
+       */
+      const componentTicks = this.tickColumns[index]?.[row];
+
+      if (componentTicks) {
+        ticks.set(type, componentTicks);
+      }
+    });
+
+    return ticks;
+  }
+
+  /**
+   * Appends an entity and its components as a new row.
+   * @param entity The entity to append.
+   * @param components The components of the entity, keyed by their type. There must be a component for every type of the archetype.
+   * @param ticks The change detection ticks of the components, keyed by their type. There must be ticks for every type of the archetype.
+   * @returns The row of the entity.
+   */
+  public push(
+    entity: Entity,
+    components: ReadonlyMap<ComponentConstructor, Component>,
+    ticks: ReadonlyMap<ComponentConstructor, ComponentTicks>
+  ): number {
+    /**
+     * The components of the entity, in the same order as `types`.
+     */
+    const row = this.types.map(type => {
+      /**
+       * The component of the entity for the current type.
+       */
+      const component = components.get(type);
+      /**
+       * The ticks of the component.
+       */
+      const componentTicks = ticks.get(type);
+
+      if (!component || !componentTicks) {
+        throw new Error(
+          `Missing component '${type.name}' for entity ${entity.toString()}`
+        );
+      }
+
+      return { component, componentTicks };
+    });
+
+    this.entities.push(entity);
+    row.forEach(({ component, componentTicks }, index) => {
+      this.columns[index]?.push(component);
+      this.tickColumns[index]?.push(componentTicks);
+    });
+
+    return this.entities.length - 1;
+  }
+
+  /**
+   * Removes a row by moving the last row into its place.
+   * @param row The row to remove.
+   * @returns The entity which was moved into the removed row, or undefined if the removed row was the last one.
+   */
+  public swapRemove(row: number): Entity | undefined {
+    /**
+     * The entity of the last row.
+     */
+    const last = this.entities.pop();
+
+    for (const column of this.columns) {
+      /**
+       * The component of the last row.
+       */
+      const component = column.pop();
+
+      if (component && row < column.length) {
+        column[row] = component;
+      }
+    }
+
+    for (const column of this.tickColumns) {
+      /**
+       * The ticks of the last row.
+       */
+      const componentTicks = column.pop();
+
+      if (componentTicks && row < column.length) {
+        column[row] = componentTicks;
+      }
+    }
+
+    if (last === undefined || row >= this.entities.length) {
+      return undefined;
+    }
+
+    this.entities[row] = last;
+
+    return last;
+  }
+}
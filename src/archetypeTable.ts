@@ -22,18 +22,39 @@
  *  const [position, velocity] = query.components;
  * });
  *
+ * const filteredQueries = archetypeTable.find(Position, Optional(Velocity), Without(Frozen));
+ *
+ * const cachedQuery = archetypeTable.query(Position, Velocity);
+ * cachedQuery.forEach((entity, [position, velocity]) => {
+ *  position.x += velocity.x;
+ * });
+ *
  * archetypeTable.delete(entity);
  * ```
  */
 
+import Archetype, {
+  type ArchetypeEdge,
+  type ComponentTicks,
+} from "./archetype";
+import CachedQuery from "./cachedQuery";
 import type Component from "./component";
 import type { Entity } from "./entity";
+import EntityAllocator from "./entityAllocator";
+import { Children, Parent } from "./hierarchy";
+import type { QueryData, QueryTerm } from "./queryFilter";
+import Relation from "./relation";
+
+/**
+ * The components of a query. Components of optional query terms are `undefined` if the entity does not have them.
+ */
+export type QueryComponents = (Component | undefined)[];
 
 /**
  * Represents a query for a system. A query is a component and the entity that owns that component.
  * @template T The components of the query.
  */
-export class Query<T extends Component[]> {
+export class Query<T extends QueryComponents> {
   constructor(
     /**
      * The entity that owns the components.
@@ -56,61 +77,397 @@ export type ComponentConstructor<T extends Component = Component> = new (
 ) => T;
 
 /**
- * An archetype table is a map of entities to sets of components.
+ * Reacts to lifecycle events of components of a type, e.g. to maintain a spatial index or to clean up external resources. Observers run
+ * synchronously, right after components are added or replaced, and right before they are removed.
+ * @template T The component type.
+ */
+export interface ComponentObserver<T extends Component = Component> {
+  /**
+   * Runs after a component is added to an entity which did not have a component of its type.
+   * @param entity The entity.
+   * @param component The added component.
+   */
+  onAdd?(entity: Entity, component: T): void;
+  /**
+   * Runs after a component is added to an entity, or replaces the component of the same type. Runs after `onAdd`.
+   * @param entity The entity.
+   * @param component The inserted component.
+   * @param previous The replaced component, or undefined if the component was added.
+   */
+  onInsert?(entity: Entity, component: T, previous: T | undefined): void;
+  /**
+   * Runs before a component is removed from an entity, including when the entity is deleted. The entity still has the component.
+   * @param entity The entity.
+   * @param component The removed component.
+   */
+  onRemove?(entity: Entity, component: T): void;
+  /**
+   * Runs before an entity which has a component of the type is deleted. Runs before `onRemove`.
+   * @param entity The entity.
+   * @param component The component of the entity.
+   */
+  onDespawn?(entity: Entity, component: T): void;
+}
+
+/**
+ * The location of an entity inside of the archetype table.
+ */
+interface EntityRecord {
+  /**
+   * The archetype which stores the entity.
+   */
+  archetype: Archetype;
+  /**
+   * The row of the entity inside of the archetype.
+   */
+  row: number;
+}
+
+/**
+ * An archetype table stores entities and their components, grouped by archetype.
  *
- * It is similar to a table in a relational database, but the columns are dynamic and the first column is always the entity id (primary key).
+ * It is similar to a set of tables in a relational database: every archetype is a table whose columns are the component types of its entities,
+ * and whose rows are the entities themselves. Archetypes are linked together in a graph, where each edge adds or removes a single component type,
+ * so that structural changes can find their target archetype without hashing the whole component set.
  */
 export default class ArchetypeTable {
   /**
-   * The table of entities and components.
-   *
-   * @todo This could benefit from a more efficient data structure.
+   * Maps component types to their sequential ids. The ids give archetypes a stable order of component types.
+   */
+  private componentTypeIds = new Map<ComponentConstructor, number>();
+
+  /**
+   * The empty archetype, which stores entities without any components.
+   */
+  private root = new Archetype(0, []);
+
+  /**
+   * All archetypes, in the order of their creation. The archetype at index 0 is the empty archetype.
+   */
+  private archetypes: Archetype[] = [this.root];
+
+  /**
+   * Maps archetype keys (the sorted ids of their component types) to archetypes.
+   */
+  private archetypesByKey = new Map<string, Archetype>([["", this.root]]);
+
+  /**
+   * Maps component types to the archetypes which contain them.
+   */
+  private archetypesByComponent = new Map<ComponentConstructor, Archetype[]>();
+
+  /**
+   * Maps entities to their location in the archetypes.
+   */
+  private entities = new Map<Entity, EntityRecord>();
+
+  /**
+   * The cached queries which are kept up to date with new archetypes.
+   */
+  private queries: CachedQuery<QueryComponents>[] = [];
+
+  /**
+   * Allocates the ids of entities, and recycles the ids of deleted entities.
+   */
+  private allocator = new EntityAllocator();
+
+  /**
+   * The current change detection tick. Components which are added or changed are marked with the current tick.
+   */
+  private tick = 0;
+
+  /**
+   * The observers of each component type.
+   */
+  private observers = new Map<ComponentConstructor, ComponentObserver[]>();
+
+  /**
+   * The registered component types which are relations.
    */
-  private table = new Map<Entity, Component[]>();
+  private relationTypes: ComponentConstructor<Relation>[] = [];
 
   /**
-   * Adds a component to an entity.
+   * Adds a component to an entity. If the entity does not exist, it is created.
    * @param entity The entity to add the component to.
    * @param component The component to add.
+   * @throws If the entity already has a component of the same type. Use `set` to replace components.
    */
   public add(entity: Entity, component: Component): void {
+    this.addAll(entity, [component]);
+  }
+
+  /**
+   * Adds multiple components to an entity. If the entity does not exist, it is created.
+   * @param entity The entity to add the components to.
+   * @param components The components to add.
+   * @throws If the entity already has a component of the same type as one of the components, or if multiple components have the same type.
+   * Use `setAll` to replace components.
+   */
+  public addAll(entity: Entity, newComponents: Component[]): void {
     /**
-     * The components of the entity, if it exists.
+     * The component types which were already seen, either on the entity or earlier in the list.
      */
-    const components = this.table.get(entity);
+    const types = new Set(this.entities.get(entity)?.archetype.types);
 
-    if (!components) {
-      this.table.set(entity, [component]);
-    } else {
-      components.push(component);
+    for (const component of newComponents) {
+      /**
+       * The type of the component.
+       */
+      const type = component.constructor as ComponentConstructor;
+
+      if (types.has(type)) {
+        throw new Error(
+          `Entity ${entity.toString()} already has a component of type '${type.name}'`
+        );
+      }
+
+      types.add(type);
     }
+
+    this.setAll(entity, newComponents);
   }
 
   /**
-   * Adds multiple components to an entity.
-   * @param entity The entity to add the components to.
-   * @param components The components to add.
+   * Adds a component to an entity, or replaces the component of the same type if the entity already has one. Replaced components are marked as changed.
+   * If the entity does not exist, it is created.
+   * @param entity The entity to set the component of.
+   * @param component The component to set.
    */
-  public addAll(entity: Entity, newComponents: Component[]): void {
+  public set(entity: Entity, component: Component): void {
+    this.setAll(entity, [component]);
+  }
+
+  /**
+   * Adds multiple components to an entity, or replaces the components of the same types if the entity already has them. Replaced components are
+   * marked as changed. If the entity does not exist, it is created.
+   * @param entity The entity to set the components of.
+   * @param components The components to set. If multiple components have the same type, the last one is used.
+   */
+  public setAll(entity: Entity, newComponents: Component[]): void {
+    /**
+     * The new components, keyed by their type.
+     */
+    const components = new Map<ComponentConstructor, Component>();
+    for (const component of newComponents) {
+      components.set(component.constructor as ComponentConstructor, component);
+    }
+
+    /**
+     * The new parent of the entity, if it is set.
+     */
+    const parent = components.get(Parent);
+    /**
+     * The current parent of the entity, if it has one.
+     */
+    const previousParent = this.getParent(entity);
+
+    if (parent instanceof Parent) {
+      this.checkParent(entity, parent.target);
+    }
+
+    /**
+     * The location of the entity, if it exists.
+     */
+    const record = this.entities.get(entity);
+    /**
+     * The components which are replaced, keyed by their type.
+     */
+    const previous = new Map(
+      [...components.keys()].map(type => [
+        type,
+        record?.archetype.column(type)?.[record.row],
+      ])
+    );
+
+    // Entities with explicitly chosen ids need to be reserved, so that generated ids don't collide with them.
+    if (!record && !this.allocator.isAlive(entity)) {
+      this.allocator.reserve(entity);
+    }
+
     /**
-     * The components of the entity, if it exists.
+     * The archetype that the entity will be stored in.
      */
-    const components = this.table.get(entity);
+    let target = record?.archetype ?? this.root;
 
-    if (!components) {
-      this.table.set(entity, newComponents);
+    for (const type of components.keys()) {
+      if (!target.has(type)) {
+        target = this.getAddTarget(target, type);
+      }
+    }
+
+    // The entity stays in the same archetype, so its components can be replaced in place.
+    if (record?.archetype === target) {
+      for (const [type, component] of components) {
+        /**
+         * The column of the component type.
+         */
+        const column = target.column(type);
+        /**
+         * The ticks of the component.
+         */
+        const ticks = target.ticks(type)?.[record.row];
+
+        if (column && ticks) {
+          column[record.row] = component;
+          ticks.changed = this.tick;
+        }
+      }
     } else {
-      components.push(...components);
+      this.move(entity, target, components);
+    }
+
+    if (parent instanceof Parent && parent.target !== previousParent) {
+      if (previousParent !== undefined) {
+        this.removeChild(previousParent, entity);
+      }
+      this.addChild(parent.target, entity);
+    }
+
+    for (const [type, component] of components) {
+      /**
+       * The replaced component, if any.
+       */
+      const replaced = previous.get(type);
+
+      for (const observer of this.observers.get(type) ?? []) {
+        if (replaced === undefined) {
+          observer.onAdd?.(entity, component);
+        }
+        observer.onInsert?.(entity, component, replaced);
+      }
     }
   }
 
+  /**
+   * Removes a component from an entity.
+   *
+   * An entity whose last component is removed still exists, without any components, until it is deleted.
+   * @param entity The entity to remove the component from.
+   * @param component The component type to remove. Specified as a class, not an instance.
+   * @returns The removed component, or undefined if the entity does not exist or does not have the component.
+   */
+  public remove<T extends Component>(
+    entity: Entity,
+    component: ComponentConstructor<T>
+  ): T | undefined {
+    /**
+     * The removed component, if the entity has it.
+     */
+    const removed = this.get(entity, component);
+
+    this.removeAll(entity, [component]);
+
+    return removed;
+  }
+
+  /**
+   * Removes multiple components from an entity. Component types which the entity does not have are ignored.
+   *
+   * An entity whose last component is removed still exists, without any components, until it is deleted.
+   * @param entity The entity to remove the components from.
+   * @param components The component types to remove. Specified as classes, not instances.
+   */
+  public removeAll(entity: Entity, components: ComponentConstructor[]): void {
+    for (const type of new Set(components)) {
+      /**
+       * The component which is removed, if the entity has it.
+       */
+      const component = this.get(entity, type);
+
+      if (component) {
+        for (const observer of this.observers.get(type) ?? []) {
+          observer.onRemove?.(entity, component);
+        }
+      }
+    }
+
+    /**
+     * The location of the entity, if it exists. Read after the observers ran, since they may have changed the entity.
+     */
+    const record = this.entities.get(entity);
+
+    if (!record) {
+      return;
+    }
+
+    /**
+     * The archetype that the entity will be stored in.
+     */
+    let target = record.archetype;
+
+    for (const type of components) {
+      if (target.has(type)) {
+        target = this.getRemoveTarget(target, type);
+      }
+    }
+
+    if (target === record.archetype) {
+      return;
+    }
+
+    /**
+     * The parent of the entity, if it has one.
+     */
+    const parent = this.getParent(entity);
+    /**
+     * The children of the entity, if its `Children` component is removed.
+     */
+    const children = target.has(Children) ? [] : [...this.getChildren(entity)];
+
+    this.move(entity, target, new Map());
+
+    if (parent !== undefined && !target.has(Parent)) {
+      this.removeChild(parent, entity);
+    }
+
+    for (const child of children) {
+      this.removeAll(child, [Parent]);
+    }
+  }
+
+  /**
+   * Allocates an id for a new entity, recycling the index of a deleted entity if possible. The entity is created once components are added to it.
+   * @returns The id of the new entity.
+   */
+  public allocate(): Entity {
+    return this.allocator.allocate();
+  }
+
+  /**
+   * Checks if an entity id is alive, i.e. it was allocated or used, and the entity has not been deleted since.
+   *
+   * Unlike `exists`, this is also true for allocated ids whose entity has not been created yet, e.g. ids returned by `Commands.spawn`.
+   * @param entity The entity to check.
+   * @returns True if the entity id is alive, false if it was never used or is stale.
+   */
+  public isAlive(entity: Entity): boolean {
+    return this.allocator.isAlive(entity);
+  }
+
+  /**
+   * Checks if an entity id is stale, i.e. the entity was deleted and its id can't be used again.
+   * @param entity The entity to check.
+   * @returns True if the entity was deleted, false if it is alive or its id was never used.
+   */
+  public isStale(entity: Entity): boolean {
+    return this.allocator.isStale(entity);
+  }
+
   /**
    * Checks if an entity exists.
    * @param entity The entity to check.
    * @returns True if the entity exists, false otherwise.
    */
   public exists(entity: Entity): boolean {
-    return this.table.has(entity);
+    return this.entities.has(entity);
+  }
+
+  /**
+   * Gets all entities which exist.
+   * @returns The entities, in the order of their creation.
+   */
+  public getEntities(): Entity[] {
+    return [...this.entities.keys()];
   }
 
   /**
@@ -120,16 +477,7 @@ export default class ArchetypeTable {
    * @returns True if the entity has the component, false otherwise.
    */
   public has(entity: Entity, component: ComponentConstructor): boolean {
-    /**
-     * The components of the entity, if it exists.
-     */
-    const components = this.table.get(entity);
-
-    if (!components) {
-      return false;
-    }
-
-    return components.some(c => c instanceof component);
+    return this.entities.get(entity)?.archetype.has(component) ?? false;
   }
 
   /**
@@ -143,16 +491,16 @@ export default class ArchetypeTable {
     requiredComponents: ComponentConstructor[]
   ): boolean {
     /**
-     * The components of the entity, if it exists.
+     * The location of the entity, if it exists.
      */
-    const components = this.table.get(entity);
+    const record = this.entities.get(entity);
 
-    if (!components) {
+    if (!record) {
       return false;
     }
 
     return requiredComponents.every(component =>
-      components.some(c => c instanceof component)
+      record.archetype.has(component)
     );
   }
 
@@ -167,15 +515,15 @@ export default class ArchetypeTable {
     component: ComponentConstructor<T>
   ): T | undefined {
     /**
-     * The components of the entity, if it exists.
+     * The location of the entity, if it exists.
      */
-    const components = this.table.get(entity);
+    const record = this.entities.get(entity);
 
-    if (!components) {
+    if (!record) {
       return undefined;
     }
 
-    return components.find(c => c instanceof component) as T | undefined;
+    return record.archetype.column(component)?.[record.row];
   }
 
   /**
@@ -184,13 +532,92 @@ export default class ArchetypeTable {
    * @returns The components of the entity, or undefined if the entity does not exist.
    */
   public getAll(entity: Entity): Component[] | undefined {
-    return this.table.get(entity);
+    /**
+     * The location of the entity, if it exists.
+     */
+    const record = this.entities.get(entity);
+
+    if (!record) {
+      return undefined;
+    }
+
+    return [...record.archetype.read(record.row).values()];
   }
 
   /**
-   * Finds entities which contain the provided components.
-   * @param components The components to find. Components are specified as classes, not instances.
-   * @returns An array of queries, each representing an entity that contains all of the provided components.
+   * Marks a component of an entity as changed, so that it matches `Changed` query filters. Components are not changed automatically when their
+   * fields are modified.
+   * @param entity The entity which owns the component.
+   * @param component The component type to mark as changed.
+   */
+  public markChanged(entity: Entity, component: ComponentConstructor): void {
+    /**
+     * The location of the entity, if it exists.
+     */
+    const record = this.entities.get(entity);
+    /**
+     * The ticks of the component, if the entity has it.
+     */
+    const ticks = record?.archetype.ticks(component)?.[record.row];
+
+    if (ticks) {
+      ticks.changed = this.tick;
+    }
+  }
+
+  /**
+   * Observes the lifecycle of components of a type.
+   * @param type The component type.
+   * @param observer The observer.
+   * @returns A function which stops the observer.
+   */
+  public observe<T extends Component>(
+    type: ComponentConstructor<T>,
+    observer: ComponentObserver<T>
+  ): () => void {
+    /**
+     * The observers of the component type.
+     */
+    const observers = this.observers.get(type) ?? [];
+
+    observers.push(observer as ComponentObserver);
+    this.observers.set(type, observers);
+
+    return () => {
+      /**
+       * The index of the observer, if it is still observing.
+       */
+      const index = observers.indexOf(observer as ComponentObserver);
+
+      if (index !== -1) {
+        observers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Gets the current change detection tick.
+   * @returns The current tick.
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Advances the change detection tick. Changes made after this call are seen as new by cached queries which ran before it.
+   *
+   * The app advances the tick after every system.
+   */
+  public advanceTick(): void {
+    this.tick++;
+  }
+
+  /**
+   * Finds entities which match the provided query terms.
+   *
+   * Change detection filters (`Added` and `Changed`) match components which were added or changed during the current tick.
+   * @param terms The terms of the query. Components are specified as classes, not instances. See `queryFilter.ts` for the available filters.
+   * @returns An array of queries, each representing an entity that matches all of the provided terms.
    *
    * @example
    * ```ts
@@ -199,40 +626,532 @@ export default class ArchetypeTable {
    *  const entity = query.entity; // Entity
    *  const [position, velocity] = query.components; // [Position, Velocity]
    * });
+   *
+   * archetypeTable.find(Health, Optional(Shield), Without(Frozen)); // Query<[Health, Shield | undefined]>[]
+   * ```
    */
-  public find<T extends Component[]>(
-    ...requiredComponents: { [K in keyof T]: ComponentConstructor<T[K]> }
-  ): Query<T>[] {
+  public find<T extends QueryTerm[]>(...terms: T): Query<QueryData<T>>[] {
     /**
-     * The queries for the entities that contain the components.
+     * A query which is not kept up to date, since it is only ran once.
      */
-    const queries: Query<T>[] = [];
+    const query = this.createQuery<QueryData<T>>(terms);
+    query.lastRun = this.tick - 1;
+
+    return query.toArray();
+  }
 
-    for (const [entity, components] of this.table) {
+  /**
+   * Creates a cached query for entities which match the provided query terms. The query is kept up to date as entities gain or lose components,
+   * so it should be created once (e.g. in the constructor of a system) and iterated on every update.
+   *
+   * Change detection filters (`Added` and `Changed`) match components which were added or changed since the query was last iterated.
+   * @param terms The terms of the query. Components are specified as classes, not instances. See `queryFilter.ts` for the available filters.
+   * @returns The cached query.
+   *
+   * @example
+   * ```ts
+   * const query = archetypeTable.query(Position, Velocity);
+   * query.forEach((entity, [position, velocity]) => {
+   *  position.x += velocity.x;
+   *  position.y += velocity.y;
+   * });
+   * ```
+   */
+  public query<T extends QueryTerm[]>(...terms: T): CachedQuery<QueryData<T>> {
+    /**
+     * The new query, kept up to date with new archetypes.
+     */
+    const query = this.createQuery<QueryData<T>>(terms);
+
+    this.queries.push(query);
+
+    return query;
+  }
+
+  /**
+   * Stops keeping a cached query up to date, so that it can be garbage collected once it is no longer used, e.g. when a system which
+   * created it is removed. The query still iterates the archetypes which it matched so far, but not archetypes which are created later, so
+   * it should not be used afterwards. Queries returned by `find` are never kept, so they don't need to be released.
+   * @param query The cached query to release. Queries which are not kept up to date are ignored.
+   */
+  public release<T extends QueryComponents>(query: CachedQuery<T>): void {
+    /**
+     * The index of the query, if it is kept up to date.
+     */
+    const index = this.queries.indexOf(query);
+
+    if (index !== -1) {
+      this.queries.splice(index, 1);
+    }
+  }
+
+  /**
+   * Gets the parent of an entity.
+   * @param entity The entity to get the parent of.
+   * @returns The parent, or undefined if the entity has no parent.
+   */
+  public getParent(entity: Entity): Entity | undefined {
+    return this.get(entity, Parent)?.target;
+  }
+
+  /**
+   * Gets the children of an entity.
+   * @param entity The entity to get the children of.
+   * @returns The children, in the order in which they became children of the entity.
+   */
+  public getChildren(entity: Entity): readonly Entity[] {
+    return this.get(entity, Children)?.entities ?? [];
+  }
+
+  /**
+   * Gets the ancestors of an entity, i.e. its parent, the parent of its parent, and so on.
+   * @param entity The entity to get the ancestors of.
+   * @returns The ancestors, starting with the parent and ending with the root of the hierarchy.
+   */
+  public getAncestors(entity: Entity): Entity[] {
+    /**
+     * The ancestors found so far.
+     */
+    const ancestors: Entity[] = [];
+    /**
+     * The current ancestor.
+     */
+    let ancestor = this.getParent(entity);
+
+    while (ancestor !== undefined) {
+      ancestors.push(ancestor);
+      ancestor = this.getParent(ancestor);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Gets the descendants of an entity, i.e. its children, their children, and so on.
+   * @param entity The entity to get the descendants of.
+   * @returns The descendants, in depth-first order.
+   */
+  public getDescendants(entity: Entity): Entity[] {
+    return this.getChildren(entity).flatMap(child => [
+      child,
+      ...this.getDescendants(child),
+    ]);
+  }
+
+  /**
+   * Deletes an entity along with its descendants, and frees their ids. The index of an id is recycled for new entities with an increased
+   * generation, so a deleted id becomes stale and cannot be used again. Relations which point to a deleted entity are removed from their
+   * entities.
+   * @param entity The entity to delete.
+   */
+  public delete(entity: Entity): void {
+    for (const child of [...this.getChildren(entity)]) {
+      this.delete(child);
+    }
+
+    for (const component of this.getAll(entity) ?? []) {
+      for (const observer of this.observers.get(
+        component.constructor as ComponentConstructor
+      ) ?? []) {
+        observer.onDespawn?.(entity, component);
+        observer.onRemove?.(entity, component);
+      }
+    }
+
+    /**
+     * The parent of the entity, if it has one.
+     */
+    const parent = this.getParent(entity);
+
+    if (parent !== undefined) {
+      this.removeChild(parent, entity);
+    }
+
+    this.allocator.free(entity);
+
+    /**
+     * The location of the entity, if it exists.
+     */
+    const record = this.entities.get(entity);
+
+    if (!record) {
+      return;
+    }
+
+    this.detach(record);
+    this.entities.delete(entity);
+    this.removeRelationsTo(entity);
+  }
+
+  /**
+   * Removes all relations which point to an entity.
+   * @param target The target of the relations.
+   */
+  private removeRelationsTo(target: Entity): void {
+    for (const type of this.relationTypes) {
       /**
-       * The components of the entity that match the required components in the parameters.
+       * The entities whose relation of the type points to the target.
        */
-      const matchedComponents = requiredComponents.map(component =>
-        components.find(c => c instanceof component)
-      );
+      const sources: Entity[] = [];
+
+      for (const archetype of this.archetypesByComponent.get(type) ?? []) {
+        archetype.column<Relation>(type)?.forEach((relation, row) => {
+          /**
+           * The entity of the row.
+           */
+          const source = archetype.entities[row];
 
-      // If all of the required components are present, add the entity to the queries.
-      if (matchedComponents.every(c => c !== undefined)) {
-        queries.push({
-          entity,
-          components: matchedComponents as T,
+          if (relation.target === target && source !== undefined) {
+            sources.push(source);
+          }
         });
       }
+
+      for (const source of sources) {
+        this.removeAll(source, [type]);
+      }
+    }
+  }
+
+  /**
+   * Checks if an entity can become the child of another entity.
+   * @param entity The future child.
+   * @param parent The future parent.
+   * @throws If the parent is not alive, or if it is the entity itself or one of its descendants.
+   */
+  private checkParent(entity: Entity, parent: Entity): void {
+    if (!this.isAlive(parent)) {
+      throw new Error(
+        `Parent ${parent.toString()} of entity ${entity.toString()} does not exist`
+      );
     }
 
-    return queries;
+    if (parent === entity || this.getAncestors(parent).includes(entity)) {
+      throw new Error(
+        `Entity ${parent.toString()} cannot be the parent of entity ${entity.toString()}, since that would create a cycle`
+      );
+    }
   }
 
   /**
-   * Deletes an entity.
-   * @param entity The entity to delete.
+   * Adds a child to the children of an entity, adding the `Children` component if needed.
+   * @param parent The entity to add the child to.
+   * @param child The child to add.
    */
-  public delete(entity: Entity): void {
-    this.table.delete(entity);
+  private addChild(parent: Entity, child: Entity): void {
+    /**
+     * The children of the parent, if it has any.
+     */
+    const children = this.get(parent, Children);
+
+    if (children) {
+      children.entities.push(child);
+      this.markChanged(parent, Children);
+    } else {
+      this.setAll(parent, [new Children([child])]);
+    }
+  }
+
+  /**
+   * Removes a child from the children of an entity, removing the `Children` component along with the last child.
+   * @param parent The entity to remove the child from.
+   * @param child The child to remove.
+   */
+  private removeChild(parent: Entity, child: Entity): void {
+    /**
+     * The children of the parent, if it has any.
+     */
+    const children = this.get(parent, Children);
+
+    if (!children) {
+      return;
+    }
+
+    /**
+     * The index of the child.
+     */
+    const index = children.entities.indexOf(child);
+
+    if (index !== -1) {
+      children.entities.splice(index, 1);
+    }
+
+    if (children.entities.length === 0) {
+      this.removeAll(parent, [Children]);
+    } else {
+      this.markChanged(parent, Children);
+    }
+  }
+
+  /**
+   * Creates a query and matches it against the existing archetypes.
+   * @param terms The terms of the query.
+   * @returns The query.
+   */
+  private createQuery<T extends QueryComponents>(
+    terms: readonly QueryTerm[]
+  ): CachedQuery<T> {
+    /**
+     * The new query.
+     */
+    const query = new CachedQuery<T>(this, terms);
+
+    for (const archetype of this.findArchetypes(query.required)) {
+      query.match(archetype);
+    }
+
+    return query;
+  }
+
+  /**
+   * Finds the archetypes which contain all of the provided component types.
+   * @param types The component types which the archetypes must contain.
+   * @returns The matching archetypes.
+   */
+  private findArchetypes(types: readonly ComponentConstructor[]): Archetype[] {
+    if (types.length === 0) {
+      return this.archetypes;
+    }
+
+    /**
+     * The smallest list of candidate archetypes, taken from the least common component type.
+     */
+    let candidates: Archetype[] | undefined;
+
+    for (const type of types) {
+      /**
+       * The archetypes which contain the component type.
+       */
+      const archetypes = this.archetypesByComponent.get(type);
+
+      // No archetype contains the component type, so no archetype can match.
+      if (!archetypes) {
+        return [];
+      }
+
+      if (!candidates || archetypes.length < candidates.length) {
+        candidates = archetypes;
+      }
+    }
+
+    return (candidates ?? []).filter(archetype =>
+      types.every(type => archetype.has(type))
+    );
+  }
+
+  /**
+   * Gets the archetype which an entity moves to when a component type is added to it, creating it if needed.
+   * @param archetype The archetype that the entity is currently in.
+   * @param type The component type which is added.
+   * @returns The target archetype.
+   */
+  private getAddTarget(
+    archetype: Archetype,
+    type: ComponentConstructor
+  ): Archetype {
+    /**
+     * The edge of the archetype graph for the component type.
+     */
+    const edge = this.getEdge(archetype, type);
+
+    if (!edge.add) {
+      edge.add = this.getArchetype([...archetype.types, type]);
+      this.getEdge(edge.add, type).remove = archetype;
+    }
+
+    return edge.add;
+  }
+
+  /**
+   * Gets the archetype which an entity moves to when a component type is removed from it, creating it if needed.
+   * @param archetype The archetype that the entity is currently in.
+   * @param type The component type which is removed.
+   * @returns The target archetype.
+   */
+  private getRemoveTarget(
+    archetype: Archetype,
+    type: ComponentConstructor
+  ): Archetype {
+    /**
+     * The edge of the archetype graph for the component type.
+     */
+    const edge = this.getEdge(archetype, type);
+
+    if (!edge.remove) {
+      edge.remove = this.getArchetype(
+        archetype.types.filter(existing => existing !== type)
+      );
+      this.getEdge(edge.remove, type).add = archetype;
+    }
+
+    return edge.remove;
+  }
+
+  /**
+   * Gets the edge of an archetype for a component type, creating it if needed.
+   * @param archetype The archetype which owns the edge.
+   * @param type The component type of the edge.
+   * @returns The edge.
+   */
+  private getEdge(
+    archetype: Archetype,
+    type: ComponentConstructor
+  ): ArchetypeEdge {
+    /**
+     * The existing edge, if any.
+     */
+    let edge = archetype.edges.get(type);
+
+    if (!edge) {
+      edge = {};
+      archetype.edges.set(type, edge);
+    }
+
+    return edge;
+  }
+
+  /**
+   * Gets the archetype for a set of component types, creating it if needed.
+   * @param types The component types of the archetype, in any order.
+   * @returns The archetype.
+   */
+  private getArchetype(types: ComponentConstructor[]): Archetype {
+    /**
+     * The component types, sorted by their ids.
+     */
+    const sorted = [...types].sort(
+      (a, b) => this.getComponentTypeId(a) - this.getComponentTypeId(b)
+    );
+    /**
+     * The key of the archetype.
+     */
+    const key = sorted.map(type => this.getComponentTypeId(type)).join(",");
+
+    /**
+     * The existing archetype, if any.
+     */
+    let archetype = this.archetypesByKey.get(key);
+
+    if (!archetype) {
+      archetype = new Archetype(this.archetypes.length, sorted);
+
+      this.archetypes.push(archetype);
+      this.archetypesByKey.set(key, archetype);
+
+      for (const type of sorted) {
+        /**
+         * The archetypes which contain the component type, if any.
+         */
+        const archetypes = this.archetypesByComponent.get(type);
+
+        if (archetypes) {
+          archetypes.push(archetype);
+        } else {
+          this.archetypesByComponent.set(type, [archetype]);
+        }
+      }
+
+      for (const query of this.queries) {
+        query.match(archetype);
+      }
+    }
+
+    return archetype;
+  }
+
+  /**
+   * Gets the id of a component type, registering the component type if needed.
+   * @param type The component type.
+   * @returns The id of the component type.
+   */
+  private getComponentTypeId(type: ComponentConstructor): number {
+    /**
+     * The existing id, if any.
+     */
+    let id = this.componentTypeIds.get(type);
+
+    if (id === undefined) {
+      id = this.componentTypeIds.size;
+      this.componentTypeIds.set(type, id);
+
+      if ((type.prototype as object) instanceof Relation) {
+        this.relationTypes.push(type as ComponentConstructor<Relation>);
+      }
+    }
+
+    return id;
+  }
+
+  /**
+   * Moves an entity into another archetype, keeping the components which are shared by both archetypes.
+   * @param entity The entity to move.
+   * @param target The archetype to move the entity to. Components of types which the target does not contain are dropped.
+   * @param components Components which are added to the entity, or which replace existing components of the entity.
+   */
+  private move(
+    entity: Entity,
+    target: Archetype,
+    components: Map<ComponentConstructor, Component>
+  ): void {
+    /**
+     * The current location of the entity, if it exists.
+     */
+    const record = this.entities.get(entity);
+
+    /**
+     * The current components of the entity, overwritten by the new components.
+     */
+    const row = new Map([
+      ...(record?.archetype.read(record.row) ?? []),
+      ...components,
+    ]);
+    /**
+     * The current change detection ticks of the components of the entity.
+     */
+    const ticks = new Map<ComponentConstructor, ComponentTicks>(
+      record?.archetype.readTicks(record.row)
+    );
+
+    for (const type of components.keys()) {
+      /**
+       * The ticks of the component, if the entity already has it.
+       */
+      const existing = ticks.get(type);
+
+      ticks.set(type, {
+        added: existing?.added ?? this.tick,
+        changed: this.tick,
+      });
+    }
+
+    if (record) {
+      this.detach(record);
+    }
+
+    this.entities.set(entity, {
+      archetype: target,
+      row: target.push(entity, row, ticks),
+    });
+  }
+
+  /**
+   * Removes the row of an entity from its archetype, and updates the location of the entity which takes its place.
+   * @param record The location of the entity.
+   */
+  private detach(record: EntityRecord): void {
+    /**
+     * The entity which was moved into the removed row, if any.
+     */
+    const moved = record.archetype.swapRemove(record.row);
+
+    /**
+     * The location of the moved entity, if any.
+     */
+    const movedRecord =
+      moved === undefined ? undefined : this.entities.get(moved);
+
+    if (movedRecord) {
+      movedRecord.row = record.row;
+    }
   }
 }
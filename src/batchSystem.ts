@@ -0,0 +1,53 @@
+/**
+ * @module batchSystem.ts Contains the `BatchSystem` class.
+ *
+ * @example
+ * ```ts
+ * import { BatchSystem, CachedQuery, Query } from "@mapokapo/simecs";
+ *
+ * export class PathfindingSystem extends BatchSystem<[Position, Target]> {
+ *  private query = this.archetypeTable.query(Position, Target);
+ *
+ *  override select(): CachedQuery<[Position, Target]> {
+ *    return this.query;
+ *  }
+ *
+ *  override async run(queries: Query<[Position, Target]>[]): Promise<void> {
+ *    const paths = await findPaths(queries.map(({ components: [position, target] }) => [position, target]));
+ *    // ...
+ *  }
+ * }
+ * ```
+ */
+
+import { Query, type QueryComponents } from "./archetypeTable";
+import type { Entity } from "./entity";
+import System from "./system";
+
+/**
+ * A system which updates all of its selected entities at once, instead of one at a time. Useful for per-frame setup, vectorized work, or
+ * async work which should not wait for every entity in turn.
+ *
+ * Batched systems run with the same hooks around them as other systems, except for the hooks around each entity. Unlike other systems,
+ * they run even if they selected no entities.
+ *
+ * @template T The type of components that the system operates on.
+ */
+export default abstract class BatchSystem<
+  T extends QueryComponents,
+> extends System<T> {
+  /**
+   * Updates all selected entities. Runs every time the system runs, even if it selected no entities.
+   * @param queries The selected entities and their components.
+   */
+  abstract run(queries: Query<T>[]): void | Promise<void>;
+
+  /**
+   * Updates a single entity by running the system on it alone.
+   * @param entity The entity to update.
+   * @param components The selected components of the entity.
+   */
+  override update(entity: Entity, components: T): void | Promise<void> {
+    return this.run([new Query(entity, components)]);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * @module cachedQuery.ts Contains the `CachedQuery` class.
+ *
+ * @example
+ * ```ts
+ * import ArchetypeTable from "./archetypeTable";
+ *
+ * const archetypeTable = new ArchetypeTable();
+ * const query = archetypeTable.query(Position, Velocity); // CachedQuery<[Position, Velocity]>
+ *
+ * archetypeTable.addAll(entity, [new Position(0, 0), new Velocity(1, 1)]);
+ *
+ * query.forEach((entity, [position, velocity]) => {
+ *  position.x += velocity.x;
+ *  position.y += velocity.y;
+ * });
+ * ```
+ */
+
+import type Archetype from "./archetype";
+import {
+  Query,
+  type ComponentConstructor,
+  type QueryComponents,
+} from "./archetypeTable";
+import type ArchetypeTable from "./archetypeTable";
+import type Component from "./component";
+import type { Entity } from "./entity";
+import QueryFilter, { OptionalTerm, type QueryTerm } from "./queryFilter";
+
+/**
+ * A persistent query over the archetype table.
+ *
+ * Instead of searching the archetype table on every call like `ArchetypeTable.find`, a cached query remembers the archetypes which match it.
+ * The archetype table registers newly created archetypes with every cached query, so the query is always up to date as entities gain or
+ * lose components, or are deleted.
+ *
+ * Cached queries are created with `ArchetypeTable.query`.
+ *
+ * @template T The components of the query.
+ */
+export default class CachedQuery<T extends QueryComponents> implements Iterable<
+  Query<T>
+> {
+  /**
+   * The component types which an entity must have to match the query.
+   */
+  public readonly required: ComponentConstructor[] = [];
+
+  /**
+   * The tick at which the query was last iterated. Change detection filters match components which were added or changed after this tick.
+   */
+  public lastRun = -1;
+
+  /**
+   * The terms which add components to the results of the query, in the order of the components of each result.
+   */
+  private fetches: (ComponentConstructor | OptionalTerm)[] = [];
+
+  /**
+   * The filters of the query.
+   */
+  private filters: QueryFilter[] = [];
+
+  /**
+   * The archetypes which match the query.
+   */
+  private archetypes: Archetype[] = [];
+
+  constructor(
+    /**
+     * The archetype table which the query reads from.
+     */
+    private archetypeTable: ArchetypeTable,
+    /**
+     * The terms of the query.
+     */
+    public readonly terms: readonly QueryTerm[]
+  ) {
+    for (const term of terms) {
+      if (term instanceof QueryFilter) {
+        this.filters.push(term);
+      } else {
+        this.fetches.push(term);
+
+        if (!(term instanceof OptionalTerm)) {
+          this.required.push(term);
+        }
+      }
+    }
+  }
+
+  /**
+   * The number of entities which currently match the query. Change detection filters are evaluated against the last run of the query.
+   */
+  public get size(): number {
+    /**
+     * The number of matching entities.
+     */
+    let size = 0;
+
+    for (const archetype of this.archetypes) {
+      archetype.entities.forEach((_, row) => {
+        if (this.matchesRow(archetype, row, this.lastRun)) {
+          size++;
+        }
+      });
+    }
+
+    return size;
+  }
+
+  /**
+   * Adds an archetype to the query if its entities can match the query. Called by the archetype table whenever an archetype is created.
+   * @param archetype The archetype to match.
+   */
+  public match(archetype: Archetype): void {
+    if (
+      this.required.every(type => archetype.has(type)) &&
+      this.filters.every(filter => filter.matchesArchetype(archetype))
+    ) {
+      this.archetypes.push(archetype);
+    }
+  }
+
+  /**
+   * Runs a callback for every entity which matches the query, and marks the query as ran at the current tick.
+   *
+   * The callback must not add or remove components or entities, since that would move entities between archetypes while they are being iterated.
+   * Use `toArray` to iterate over a snapshot instead.
+   * @param callback The callback to run, with the entity and its components.
+   */
+  public forEach(callback: (entity: Entity, components: T) => void): void {
+    /**
+     * The tick of the previous run, against which changes are detected.
+     */
+    const lastRun = this.lastRun;
+    this.lastRun = this.archetypeTable.getTick();
+
+    for (const archetype of this.archetypes) {
+      /**
+       * The columns of the components of the query. Optional components which the archetype does not contain have no column.
+       */
+      const columns: (Component[] | undefined)[] = this.fetches.map(term =>
+        archetype.column(term instanceof OptionalTerm ? term.type : term)
+      );
+
+      archetype.entities.forEach((entity, row) => {
+        if (this.matchesRow(archetype, row, lastRun)) {
+          callback(entity, columns.map(column => column?.[row]) as T);
+        }
+      });
+    }
+  }
+
+  /**
+   * Collects the entities which currently match the query, and marks the query as ran at the current tick.
+   * @returns An array of queries, each representing an entity that matches the query.
+   */
+  public toArray(): Query<T>[] {
+    /**
+     * The queries for the entities that match the query.
+     */
+    const queries: Query<T>[] = [];
+
+    this.forEach((entity, components) => {
+      queries.push(new Query(entity, components));
+    });
+
+    return queries;
+  }
+
+  /**
+   * Iterates over a snapshot of the entities which currently match the query.
+   * @returns An iterator of queries.
+   */
+  public [Symbol.iterator](): Iterator<Query<T>> {
+    return this.toArray()[Symbol.iterator]();
+  }
+
+  /**
+   * Checks if a single entity matches the filters of the query.
+   * @param archetype The archetype of the entity.
+   * @param row The row of the entity.
+   * @param lastRun The tick against which changes are detected.
+   * @returns True if the entity matches the filters, false otherwise.
+   */
+  private matchesRow(
+    archetype: Archetype,
+    row: number,
+    lastRun: number
+  ): boolean {
+    return this.filters.every(
+      filter => filter.matchesRow?.(archetype, row, lastRun) ?? true
+    );
+  }
+}
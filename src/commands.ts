@@ -0,0 +1,320 @@
+/**
+ * @module commands.ts Contains the `Commands` class and the `Command` type.
+ *
+ * @example
+ * ```ts
+ * import { System } from "@mapokapo/simecs";
+ *
+ * export class HealthSystem extends System<[Health]> {
+ *  // ...
+ *  update(entity: Entity, components: [Health]): void {
+ *    if (components[0].value <= 0) {
+ *      this.commands.despawn(entity); // applied after the system has finished updating
+ *      this.commands.spawn(new Corpse()); // returns the id of the new entity right away
+ *    }
+ *  }
+ * }
+ * ```
+ */
+
+import type ArchetypeTable from "./archetypeTable";
+import type { ComponentConstructor } from "./archetypeTable";
+import type Component from "./component";
+import type { Entity } from "./entity";
+import type Schedule from "./schedule";
+
+/**
+ * A structural change to the archetype table, recorded by `Commands`.
+ */
+export type Command =
+  | {
+      /**
+       * Creates an entity with components.
+       */
+      type: "spawn";
+      /**
+       * The id of the new entity.
+       */
+      entity: Entity;
+      /**
+       * The components of the new entity.
+       */
+      components: Component[];
+    }
+  | {
+      /**
+       * Deletes an entity.
+       */
+      type: "despawn";
+      /**
+       * The entity to delete.
+       */
+      entity: Entity;
+    }
+  | {
+      /**
+       * Adds components to an entity, or replaces the components of the same types.
+       */
+      type: "insert";
+      /**
+       * The entity to insert the components into.
+       */
+      entity: Entity;
+      /**
+       * The components to insert.
+       */
+      components: Component[];
+    }
+  | {
+      /**
+       * Removes components from an entity.
+       */
+      type: "remove";
+      /**
+       * The entity to remove the components from.
+       */
+      entity: Entity;
+      /**
+       * The component types to remove.
+       */
+      components: ComponentConstructor[];
+    }
+  | {
+      /**
+       * Runs a schedule once. Ignored by `Commands.apply`, since the app runs the schedule once the commands have been applied.
+       */
+      type: "runSchedule";
+      /**
+       * The schedule to run.
+       */
+      schedule: Schedule;
+    };
+
+/**
+ * A command which failed to apply.
+ */
+export interface CommandFailure {
+  /**
+   * The command.
+   */
+  command: Command;
+  /**
+   * The commands which recorded it, i.e. the buffer or one of its forks.
+   */
+  recorder: Commands;
+  /**
+   * The error which the command failed with.
+   */
+  error: unknown;
+}
+
+/**
+ * A recorded command, along with the commands which recorded it.
+ */
+interface RecordedCommand {
+  /**
+   * The command.
+   */
+  command: Command;
+  /**
+   * The commands which recorded it.
+   */
+  recorder: Commands;
+}
+
+/**
+ * A buffer of structural changes to the archetype table.
+ *
+ * Systems record changes with commands instead of changing the archetype table directly, so that the entities they iterate over don't change
+ * while they are updating. The app applies the recorded commands at well-defined sync points, in the order in which they were recorded.
+ */
+export default class Commands {
+  /**
+   * The recorded commands which have not been applied yet. Shared with the forks of the buffer.
+   */
+  private queue: RecordedCommand[] = [];
+
+  constructor(
+    /**
+     * Generates the id of an entity which is spawned.
+     */
+    private generateEntityId: () => Entity
+  ) {}
+
+  /**
+   * The number of recorded commands which have not been applied yet.
+   */
+  public get length(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Creates commands which record into the same buffer, so that failed commands tell which commands recorded them. The app gives every
+   * system a fork, to report failed commands as errors of the system which recorded them.
+   * @returns The fork.
+   */
+  public fork(): Commands {
+    /**
+     * The fork, sharing the queue of the buffer.
+     */
+    const fork = new Commands(this.generateEntityId);
+    fork.queue = this.queue;
+
+    return fork;
+  }
+
+  /**
+   * Records the creation of an entity with components.
+   * @param components The components of the new entity.
+   * @returns The id of the new entity, which can be used by further commands before the entity is created.
+   */
+  public spawn(...components: Component[]): Entity {
+    /**
+     * The id of the new entity.
+     */
+    const entity = this.generateEntityId();
+
+    this.queue.push({
+      command: { type: "spawn", entity, components },
+      recorder: this,
+    });
+
+    return entity;
+  }
+
+  /**
+   * Records the deletion of an entity. Entities which do not exist by the time the command is applied are ignored.
+   * @param entity The entity to delete.
+   * @returns The commands instance.
+   */
+  public despawn(entity: Entity): this {
+    this.queue.push({ command: { type: "despawn", entity }, recorder: this });
+
+    return this;
+  }
+
+  /**
+   * Records adding components to an entity, replacing the components of the same types if the entity already has them. Entities which were
+   * deleted by the time the command is applied are ignored.
+   * @param entity The entity to insert the components into.
+   * @param components The components to insert.
+   * @returns The commands instance.
+   */
+  public insert(entity: Entity, ...components: Component[]): this {
+    this.queue.push({
+      command: { type: "insert", entity, components },
+      recorder: this,
+    });
+
+    return this;
+  }
+
+  /**
+   * Records removing components from an entity. Entities which were deleted by the time the command is applied are ignored.
+   * @param entity The entity to remove the components from.
+   * @param components The component types to remove. Specified as classes, not instances.
+   * @returns The commands instance.
+   */
+  public remove(entity: Entity, ...components: ComponentConstructor[]): this {
+    this.queue.push({
+      command: { type: "remove", entity, components },
+      recorder: this,
+    });
+
+    return this;
+  }
+
+  /**
+   * Records running a schedule once, e.g. an `"onDemand"` schedule which loads a level. The app runs the schedule right after it has
+   * applied the commands, so the schedule sees the changes recorded before it.
+   * @param schedule The schedule to run.
+   * @returns The commands instance.
+   */
+  public runSchedule(schedule: Schedule): this {
+    this.queue.push({
+      command: { type: "runSchedule", schedule },
+      recorder: this,
+    });
+
+    return this;
+  }
+
+  /**
+   * Applies the recorded commands to an archetype table, in the order in which they were recorded, and clears the buffer.
+   *
+   * Commands aimed at entities which were deleted, e.g. by an earlier command, are skipped. A command which fails doesn't stop the others
+   * from being applied.
+   * @param archetypeTable The archetype table to apply the commands to.
+   * @returns The applied commands.
+   * @throws The error of the first command which failed, after all other commands have been applied.
+   */
+  public apply(archetypeTable: ArchetypeTable): Command[] {
+    /**
+     * The applied and the failed commands.
+     */
+    const { applied, failures } = this.flush(archetypeTable);
+
+    if (failures[0]) {
+      throw failures[0].error;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Applies the recorded commands like `apply`, but returns the commands which failed instead of throwing.
+   * @param archetypeTable The archetype table to apply the commands to.
+   * @returns The applied commands, and the commands which failed along with their errors, in the order in which they were recorded.
+   */
+  public flush(archetypeTable: ArchetypeTable): {
+    applied: Command[];
+    failures: CommandFailure[];
+  } {
+    /**
+     * The commands to apply. The buffer is cleared in place first, so that commands can be recorded again right away, also by forks.
+     */
+    const recorded = this.queue.splice(0);
+    /**
+     * The commands which were applied.
+     */
+    const applied: Command[] = [];
+    /**
+     * The commands which failed.
+     */
+    const failures: CommandFailure[] = [];
+
+    for (const { command, recorder } of recorded) {
+      if (
+        command.type !== "runSchedule" &&
+        archetypeTable.isStale(command.entity)
+      ) {
+        continue;
+      }
+
+      try {
+        switch (command.type) {
+          case "spawn":
+            archetypeTable.addAll(command.entity, command.components);
+            break;
+          case "despawn":
+            archetypeTable.delete(command.entity);
+            break;
+          case "insert":
+            archetypeTable.setAll(command.entity, command.components);
+            break;
+          case "remove":
+            archetypeTable.removeAll(command.entity, command.components);
+            break;
+          case "runSchedule":
+            break;
+        }
+
+        applied.push(command);
+      } catch (error) {
+        failures.push({ command, recorder, error });
+      }
+    }
+
+    return { applied, failures };
+  }
+}
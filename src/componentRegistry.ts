@@ -0,0 +1,339 @@
+/**
+ * @module componentRegistry.ts Contains the `ComponentRegistry` class, which maps component types to stable names for serialization.
+ *
+ * @example
+ * ```ts
+ * import { ComponentRegistry } from "@mapokapo/simecs";
+ *
+ * const registry = new ComponentRegistry()
+ *  .register("position", Position)
+ *  .register("inventory", Inventory, {
+ *    serialize: inventory => [...inventory.items],
+ *    deserialize: data => new Inventory(new Set(data as string[])),
+ *  });
+ * ```
+ */
+
+import type { ComponentConstructor } from "./archetypeTable";
+import type Component from "./component";
+import type { Entity } from "./entity";
+import { Parent } from "./hierarchy";
+import Relation from "./relation";
+
+/**
+ * A value which can be stored in a snapshot, in both the JSON and the binary format.
+ */
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SerializedValue[]
+  | { [key: string]: SerializedValue };
+
+/**
+ * Passed to serializers while a snapshot is serialized or deserialized.
+ */
+export interface SerializationContext {
+  /**
+   * Maps an entity id of the snapshot to the id of the entity in the archetype table it is loaded into. Serializers of components which
+   * refer to other entities must map these references when deserializing. While serializing, ids are returned unchanged.
+   * @param entity The entity id in the snapshot.
+   * @returns The entity id in the archetype table.
+   * @throws If the entity is not part of the snapshot.
+   */
+  mapEntity(entity: Entity): Entity;
+}
+
+/**
+ * Converts components of a type to and from serialized values.
+ * @template T The component type.
+ */
+export interface ComponentSerializer<T extends Component = Component> {
+  /**
+   * Converts a component to a serialized value.
+   * @param component The component.
+   * @param context The serialization context.
+   * @returns The serialized value.
+   */
+  serialize(component: T, context: SerializationContext): SerializedValue;
+  /**
+   * Creates a component from a serialized value.
+   * @param data The serialized value.
+   * @param context The serialization context.
+   * @returns The component.
+   */
+  deserialize(data: SerializedValue, context: SerializationContext): T;
+}
+
+/**
+ * A registered component type.
+ */
+interface Registration {
+  /**
+   * The stable name of the component type.
+   */
+  name: string;
+  /**
+   * The component type.
+   */
+  type: ComponentConstructor;
+  /**
+   * The serializer of the component type.
+   */
+  serializer: ComponentSerializer;
+}
+
+/**
+ * Maps component types to stable names, which identify them in snapshots, and to their serializers. Every component type which is
+ * serialized must be registered. `Parent` is registered by default.
+ *
+ * Components are serialized with their own enumerable fields by default, which works for fields holding plain data. They are deserialized
+ * by calling their constructor without arguments, and assigning the fields on top, so fields which are missing keep the defaults of the
+ * constructor. Parameters without defaults are undefined until the data overwrites them, so the data must contain those fields. The
+ * `target` of relations is mapped to the loaded entity. Components with other fields, e.g. maps, class instances or entity references, and
+ * components whose constructors validate their arguments or have side effects, need a custom serializer.
+ */
+export default class ComponentRegistry {
+  /**
+   * The registrations, keyed by their component type.
+   */
+  private byType = new Map<ComponentConstructor, Registration>();
+
+  /**
+   * The registrations, keyed by their name.
+   */
+  private byName = new Map<string, Registration>();
+
+  constructor() {
+    this.register("parent", Parent);
+  }
+
+  /**
+   * Registers a component type.
+   * @param name The stable name of the component type, usually the `name` of its components. Changing it makes older snapshots unreadable.
+   * @param type The component type.
+   * @param serializer A custom serializer for the components. Defaults to serializing their own enumerable fields.
+   * @returns The registry, for chaining.
+   * @throws If the name or the component type is already registered.
+   */
+  public register<T extends Component>(
+    name: string,
+    type: ComponentConstructor<T>,
+    serializer?: ComponentSerializer<T>
+  ): this {
+    if (this.byName.has(name)) {
+      throw new Error(`Component name '${name}' is already registered`);
+    }
+    if (this.byType.has(type)) {
+      throw new Error(`Component type '${type.name}' is already registered`);
+    }
+
+    /**
+     * The registration of the component type.
+     */
+    const registration: Registration = {
+      name,
+      type,
+      serializer: serializer ?? createDefaultSerializer(name, type),
+    };
+
+    this.byType.set(type, registration);
+    this.byName.set(name, registration);
+
+    return this;
+  }
+
+  /**
+   * Checks if a component type is registered.
+   * @param type The component type.
+   * @returns True if the component type is registered, false otherwise.
+   */
+  public has(type: ComponentConstructor): boolean {
+    return this.byType.has(type);
+  }
+
+  /**
+   * Serializes a component.
+   * @param component The component.
+   * @param context The serialization context.
+   * @returns The registered name of the component type, and the serialized value.
+   * @throws If the component type is not registered, or if its serialized value contains values which snapshots can't store.
+   */
+  public serialize(
+    component: Component,
+    context: SerializationContext
+  ): [string, SerializedValue] {
+    /**
+     * The registration of the component type, if it is registered.
+     */
+    const registration = this.byType.get(
+      component.constructor as ComponentConstructor
+    );
+
+    if (!registration) {
+      throw new Error(
+        `Component type '${component.constructor.name}' is not registered`
+      );
+    }
+
+    return [
+      registration.name,
+      checkValue(
+        registration.serializer.serialize(component, context),
+        registration.name
+      ),
+    ];
+  }
+
+  /**
+   * Deserializes a component.
+   * @param name The registered name of the component type.
+   * @param data The serialized value.
+   * @param context The serialization context.
+   * @returns The component.
+   * @throws If no component type is registered with the name.
+   */
+  public deserialize(
+    name: string,
+    data: SerializedValue,
+    context: SerializationContext
+  ): Component {
+    /**
+     * The registration of the component type, if it is registered.
+     */
+    const registration = this.byName.get(name);
+
+    if (!registration) {
+      throw new Error(`Component name '${name}' is not registered`);
+    }
+
+    return registration.serializer.deserialize(data, context);
+  }
+}
+
+/**
+ * Creates a serializer which stores the own enumerable fields of components, except for their name. Deserialized components are created by
+ * calling their constructor without arguments, with the stored fields assigned on top.
+ * @param name The registered name of the component type, given to deserialized components.
+ * @param type The component type.
+ * @returns The serializer.
+ */
+function createDefaultSerializer(
+  name: string,
+  type: ComponentConstructor
+): ComponentSerializer {
+  return {
+    serialize: component => {
+      /**
+       * The fields of the component.
+       */
+      const data: Record<string, SerializedValue> = {};
+
+      for (const [key, value] of Object.entries(component)) {
+        if (key !== "name") {
+          data[key] = value as SerializedValue;
+        }
+      }
+
+      return data;
+    },
+    deserialize: (data, context) => {
+      /**
+       * The component, with the defaults of its constructor overridden by the data, so that fields missing from the data keep their defaults.
+       */
+      const component = Object.assign(createDefault(type), data, { name });
+
+      if (component instanceof Relation) {
+        Object.assign(component, {
+          target: context.mapEntity(component.target),
+        });
+      }
+
+      return component;
+    },
+  };
+}
+
+/**
+ * Checks that a value can be stored in a snapshot, so that both formats store the same value. Like in JSON, undefined fields of objects are
+ * dropped, and undefined elements of arrays become null.
+ * @param value The value.
+ * @param path The path of the value in its component, used in errors.
+ * @returns The value, without undefined fields.
+ * @throws If the value, or a value nested in it, is not a `SerializedValue`, e.g. a map, a set, a class instance or a non-finite number.
+ */
+function checkValue(value: unknown, path: string): SerializedValue {
+  if (
+    value === null ||
+    typeof value === "boolean" ||
+    typeof value === "string"
+  ) {
+    return value;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((element: unknown, index) =>
+      element === undefined
+        ? null
+        : checkValue(element, `${path}[${index.toString()}]`)
+    );
+  }
+
+  if (typeof value === "object") {
+    /**
+     * The prototype of the object, which is `Object.prototype` or null for plain objects.
+     */
+    const prototype: unknown = Object.getPrototypeOf(value);
+
+    if (prototype === Object.prototype || prototype === null) {
+      /**
+       * The checked fields of the object.
+       */
+      const fields: Record<string, SerializedValue> = {};
+
+      for (const [key, field] of Object.entries(value)) {
+        if (field !== undefined) {
+          fields[key] = checkValue(field, `${path}.${key}`);
+        }
+      }
+
+      return fields;
+    }
+  }
+
+  /**
+   * A description of the value, naming its class for objects.
+   */
+  const description =
+    typeof value === "object"
+      ? `an instance of ${value.constructor.name}`
+      : typeof value === "number"
+        ? String(value)
+        : `a ${typeof value}`;
+
+  throw new Error(
+    `Value '${path}' is ${description}, which can't be stored in a snapshot. Register the component type with a custom serializer`
+  );
+}
+
+/**
+ * Creates a component by calling its constructor without arguments.
+ * @param type The component type.
+ * @returns The component, with its default fields.
+ * @throws If the constructor of the component type requires arguments.
+ */
+function createDefault(type: ComponentConstructor): Component {
+  try {
+    return new (type as new () => Component)();
+  } catch (error) {
+    throw new Error(
+      `Component type '${type.name}' can't be created without arguments, register it with a custom serializer`,
+      { cause: error }
+    );
+  }
+}
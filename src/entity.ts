@@ -1,5 +1,5 @@
 /**
- * @module entity.ts Contains the `Entity` type.
+ * @module entity.ts Contains the `Entity` type, and functions for reading the index and generation of an entity.
  */
 
 /**
@@ -8,5 +8,48 @@
  * An entity is a "thing" which exists in the ECS world, identified using an id number.
  * In order to add functionality to an entity, components are attached to it.
  * The entity itself is just an id number, and the attached components are stored in a separate table-like data structure.
+ *
+ * The id number encodes an index and a generation. Indices of deleted entities are recycled with an increased generation, so that stale ids
+ * of deleted entities can be told apart from the entities which reuse their index. Entities of the first generation are equal to their index.
  */
 export type Entity = number;
+
+/**
+ * The number of distinct entity indices. Indices are stored in the lower 32 bits of an entity, and generations in the bits above them.
+ */
+export const ENTITY_INDEX_LIMIT = 2 ** 32;
+
+/**
+ * The number of distinct entity generations, limited by the largest integer which can be represented exactly. Generations wrap around to 0.
+ */
+export const ENTITY_GENERATION_LIMIT = Math.floor(
+  Number.MAX_SAFE_INTEGER / ENTITY_INDEX_LIMIT
+);
+
+/**
+ * Creates an entity from an index and a generation.
+ * @param index The index of the entity.
+ * @param generation The generation of the entity.
+ * @returns The entity.
+ */
+export function createEntity(index: number, generation: number): Entity {
+  return generation * ENTITY_INDEX_LIMIT + index;
+}
+
+/**
+ * Gets the index of an entity.
+ * @param entity The entity.
+ * @returns The index of the entity.
+ */
+export function getEntityIndex(entity: Entity): number {
+  return entity % ENTITY_INDEX_LIMIT;
+}
+
+/**
+ * Gets the generation of an entity.
+ * @param entity The entity.
+ * @returns The generation of the entity.
+ */
+export function getEntityGeneration(entity: Entity): number {
+  return Math.floor(entity / ENTITY_INDEX_LIMIT);
+}
@@ -0,0 +1,186 @@
+/**
+ * @module entityAllocator.ts Contains the `EntityAllocator` class.
+ *
+ * @example
+ * ```ts
+ * import EntityAllocator from "./entityAllocator";
+ *
+ * const allocator = new EntityAllocator();
+ *
+ * const first = allocator.allocate(); // 0
+ * allocator.free(first);
+ *
+ * const second = allocator.allocate(); // index 0, generation 1
+ * allocator.isAlive(first); // false
+ * allocator.isAlive(second); // true
+ * ```
+ */
+
+import {
+  ENTITY_GENERATION_LIMIT,
+  ENTITY_INDEX_LIMIT,
+  createEntity,
+  getEntityGeneration,
+  getEntityIndex,
+  type Entity,
+} from "./entity";
+
+/**
+ * Allocates entity ids, and recycles the indices of freed entities with an increased generation.
+ *
+ * Ids can either be generated with `allocate`, or chosen explicitly with `reserve`. Generated ids skip over indices which were reserved explicitly.
+ */
+export default class EntityAllocator {
+  /**
+   * The current generation of each used index. Indices which were never used are of generation 0. A map instead of an array, since
+   * reserved indices can be anywhere in the 32-bit range.
+   */
+  private generations = new Map<number, number>();
+
+  /**
+   * The indices which are currently allocated.
+   */
+  private alive = new Set<number>();
+
+  /**
+   * The freed indices in the order they were freed, with the most recently freed index last. May contain indices which were reserved
+   * since, which are skipped unless they are in `freeIndices`.
+   */
+  private freeOrder: number[] = [];
+
+  /**
+   * The freed indices which can be recycled.
+   */
+  private freeIndices = new Set<number>();
+
+  /**
+   * The lowest index which might have never been allocated.
+   */
+  private nextIndex = 0;
+
+  /**
+   * Allocates a new entity, recycling the index of a freed entity if possible.
+   * @returns The new entity.
+   */
+  public allocate(): Entity {
+    /**
+     * The index of the new entity.
+     */
+    let index = this.freeOrder.pop();
+
+    // Skip over freed indices which were reserved explicitly since.
+    while (index !== undefined && !this.freeIndices.has(index)) {
+      index = this.freeOrder.pop();
+    }
+
+    if (index !== undefined) {
+      this.freeIndices.delete(index);
+    } else {
+      // Skip over indices which were reserved explicitly.
+      while (this.alive.has(this.nextIndex)) {
+        this.nextIndex++;
+      }
+
+      if (this.nextIndex >= ENTITY_INDEX_LIMIT) {
+        throw new Error("Ran out of entity indices");
+      }
+
+      index = this.nextIndex++;
+    }
+
+    this.alive.add(index);
+
+    return createEntity(index, this.generations.get(index) ?? 0);
+  }
+
+  /**
+   * Reserves an explicitly chosen entity id.
+   * @param entity The entity to reserve.
+   * @throws If the index of the entity is already allocated, or if the entity is stale, i.e. its index was already freed with a later generation.
+   */
+  public reserve(entity: Entity): void {
+    if (!Number.isSafeInteger(entity) || entity < 0) {
+      throw new Error(`Invalid entity id ${entity.toString()}`);
+    }
+
+    /**
+     * The index of the entity.
+     */
+    const index = getEntityIndex(entity);
+    /**
+     * The generation of the entity.
+     */
+    const generation = getEntityGeneration(entity);
+
+    if (this.alive.has(index)) {
+      throw new Error(
+        `Entity index ${index.toString()} is already taken by entity ${createEntity(index, this.generations.get(index) ?? 0).toString()}`
+      );
+    }
+
+    if (this.isStale(entity)) {
+      throw new Error(
+        `Entity ${entity.toString()} is stale, its index was recycled with a later generation`
+      );
+    }
+
+    this.freeIndices.delete(index);
+    this.generations.set(index, generation);
+    this.alive.add(index);
+  }
+
+  /**
+   * Frees an entity, so that its index can be recycled with the next generation.
+   * @param entity The entity to free.
+   * @returns True if the entity was freed, false if it was not alive.
+   */
+  public free(entity: Entity): boolean {
+    if (!this.isAlive(entity)) {
+      return false;
+    }
+
+    /**
+     * The index of the entity.
+     */
+    const index = getEntityIndex(entity);
+
+    this.alive.delete(index);
+    this.generations.set(
+      index,
+      (getEntityGeneration(entity) + 1) % ENTITY_GENERATION_LIMIT
+    );
+    this.freeOrder.push(index);
+    this.freeIndices.add(index);
+
+    return true;
+  }
+
+  /**
+   * Checks if an entity is alive, i.e. it was allocated or reserved and has not been freed since.
+   * @param entity The entity to check.
+   * @returns True if the entity is alive, false otherwise.
+   */
+  public isAlive(entity: Entity): boolean {
+    /**
+     * The index of the entity.
+     */
+    const index = getEntityIndex(entity);
+
+    return (
+      this.alive.has(index) &&
+      (this.generations.get(index) ?? 0) === getEntityGeneration(entity)
+    );
+  }
+
+  /**
+   * Checks if an entity is stale, i.e. its index was freed with a later generation, so that the entity was deleted and can't be used again.
+   * @param entity The entity to check.
+   * @returns True if the entity is stale, false if it is alive or its id was never used.
+   */
+  public isStale(entity: Entity): boolean {
+    return (
+      getEntityGeneration(entity) <
+      (this.generations.get(getEntityIndex(entity)) ?? 0)
+    );
+  }
+}
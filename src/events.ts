@@ -0,0 +1,251 @@
+/**
+ * @module events.ts Contains the `Events` class, which stores the events of a type, and the readers and writers of events.
+ *
+ * @example
+ * ```ts
+ * import App, { EventChannels } from "@mapokapo/simecs";
+ *
+ * class CollisionEvent {
+ *  constructor(public a: Entity, public b: Entity) {}
+ * }
+ *
+ * class CollisionSystem extends System<[Collider]> {
+ *  private collisions = this.resources.getOrThrow(EventChannels).writer(CollisionEvent);
+ *  // ...
+ *  this.collisions.send(new CollisionEvent(a, b));
+ * }
+ *
+ * class SoundSystem extends System<[Speaker]> {
+ *  private collisions = this.resources.getOrThrow(EventChannels).reader(CollisionEvent);
+ *  // ...
+ *  for (const collision of this.collisions.read()) { ... }
+ * }
+ *
+ * const app = new App().addEvent(CollisionEvent);
+ * ```
+ */
+
+/**
+ * Represents the class of an event. Events are identified by their class.
+ * @template T The event type.
+ * @param args The arguments to pass to the constructor. This is simply used to satisfy the type system.
+ */
+export type EventConstructor<T extends object = object> = new (
+  ...args: never[]
+) => T;
+
+/**
+ * Stores the events of a type in two buffers: the events sent during the current frame, and the events sent during the previous frame.
+ * The buffers are swapped at the end of every frame, dropping the events of the previous frame. This way, every reader sees every event
+ * once, no matter whether it runs before or after the writer, as long as it runs at least once every frame.
+ * @template T The event type.
+ */
+export default class Events<T extends object> {
+  /**
+   * The events sent during the previous frame.
+   */
+  private previous: T[] = [];
+
+  /**
+   * The events sent during the current frame.
+   */
+  private current: T[] = [];
+
+  /**
+   * The sequential id of the first event of the previous frame.
+   */
+  private previousStart = 0;
+
+  /**
+   * The sequential id of the first event of the current frame.
+   */
+  private currentStart = 0;
+
+  /**
+   * The sequential id of the next event which will be sent.
+   */
+  public get end(): number {
+    return this.currentStart + this.current.length;
+  }
+
+  /**
+   * Sends an event.
+   * @param event The event.
+   */
+  public send(event: T): void {
+    this.current.push(event);
+  }
+
+  /**
+   * Gets the events which are still stored, starting with an event id.
+   * @param start The sequential id of the first event to get. Events which were already dropped are skipped.
+   * @returns The events, in the order in which they were sent.
+   */
+  public read(start: number): T[] {
+    return [...this.previous, ...this.current].slice(
+      Math.max(start - this.previousStart, 0)
+    );
+  }
+
+  /**
+   * Gets the events which were sent during the current frame.
+   * @returns The events, in the order in which they were sent.
+   */
+  public getCurrent(): readonly T[] {
+    return this.current;
+  }
+
+  /**
+   * Swaps the buffers at the end of a frame, dropping the events of the previous frame.
+   */
+  public update(): void {
+    this.previous = this.current;
+    this.previousStart = this.currentStart;
+    this.currentStart += this.current.length;
+    this.current = [];
+  }
+}
+
+/**
+ * Sends events of a type.
+ * @template T The event type.
+ */
+export class EventWriter<T extends object> {
+  constructor(
+    /**
+     * The events which the writer sends to.
+     */
+    private events: Events<T>
+  ) {}
+
+  /**
+   * Sends an event.
+   * @param event The event.
+   */
+  public send(event: T): void {
+    this.events.send(event);
+  }
+}
+
+/**
+ * Reads events of a type. Every reader keeps track of the events it has read, so every reader sees each event once.
+ * @template T The event type.
+ */
+export class EventReader<T extends object> {
+  /**
+   * The sequential id of the next event to read.
+   */
+  private cursor = 0;
+
+  constructor(
+    /**
+     * The events which the reader reads from.
+     */
+    private events: Events<T>
+  ) {}
+
+  /**
+   * Reads the events which were sent since the last read, including the events of the previous frame which are still stored.
+   * @returns The unread events, in the order in which they were sent.
+   */
+  public read(): T[] {
+    /**
+     * The unread events.
+     */
+    const events = this.events.read(this.cursor);
+
+    this.cursor = this.events.end;
+
+    return events;
+  }
+}
+
+/**
+ * The event channels of an app, keyed by their event class. The app inserts it as a resource, so that systems can create readers and
+ * writers of events.
+ */
+export class EventChannels {
+  /**
+   * The events of each registered event class.
+   */
+  private channels = new Map<EventConstructor, Events<object>>();
+
+  /**
+   * Registers an event class. Registering it again does nothing.
+   * @param type The event class.
+   */
+  public add(type: EventConstructor): void {
+    if (!this.channels.has(type)) {
+      this.channels.set(type, new Events());
+    }
+  }
+
+  /**
+   * Checks if an event class is registered.
+   * @param type The event class.
+   * @returns True if the event class is registered, false otherwise.
+   */
+  public has(type: EventConstructor): boolean {
+    return this.channels.has(type);
+  }
+
+  /**
+   * Gets the events of a class.
+   * @param type The event class.
+   * @returns The events.
+   * @throws If the event class is not registered.
+   */
+  public get<T extends object>(type: EventConstructor<T>): Events<T> {
+    /**
+     * The events, if the class is registered.
+     */
+    const events = this.channels.get(type);
+
+    if (!events) {
+      throw new Error(`Event '${type.name}' is not registered`);
+    }
+
+    return events as Events<T>;
+  }
+
+  /**
+   * Creates a writer of events of a class.
+   * @param type The event class.
+   * @returns The writer.
+   * @throws If the event class is not registered.
+   */
+  public writer<T extends object>(type: EventConstructor<T>): EventWriter<T> {
+    return new EventWriter(this.get(type));
+  }
+
+  /**
+   * Creates a reader of events of a class. The reader starts with the events which are still stored.
+   * @param type The event class.
+   * @returns The reader.
+   * @throws If the event class is not registered.
+   */
+  public reader<T extends object>(type: EventConstructor<T>): EventReader<T> {
+    return new EventReader(this.get(type));
+  }
+
+  /**
+   * Gets the events which were sent during the current frame, keyed by their class. Classes without events are left out.
+   * @returns The events.
+   */
+  public getCurrent(): Map<EventConstructor, readonly object[]> {
+    return new Map(
+      [...this.channels]
+        .map(([type, events]) => [type, events.getCurrent()] as const)
+        .filter(([, events]) => events.length > 0)
+    );
+  }
+
+  /**
+   * Swaps the buffers of all events at the end of a frame.
+   */
+  public update(): void {
+    for (const events of this.channels.values()) {
+      events.update();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @module functionSystem.ts Contains the `FunctionSystem` class and the `system` function, which turns a function into a system.
+ *
+ * @example
+ * ```ts
+ * import App, { queryMut, res, system } from "@mapokapo/simecs";
+ *
+ * const movement = system(
+ *  [queryMut(Position, Velocity), res(Time)],
+ *  function movement(entities, time) {
+ *    for (const { components: [position, velocity] } of entities) {
+ *      position.x += velocity.x * time.delta;
+ *    }
+ *  }
+ * );
+ *
+ * const app = new App().addSystem(UPDATE_SCHEDULE, movement);
+ * ```
+ */
+
+import type ArchetypeTable from "./archetypeTable";
+import type { Query } from "./archetypeTable";
+import BatchSystem from "./batchSystem";
+import type Commands from "./commands";
+import type Resources from "./resources";
+import type {
+  ComponentAccess,
+  ResourceAccess,
+  SystemConstructor,
+} from "./system";
+import type { SystemParam, SystemParamValues } from "./systemParams";
+
+/**
+ * A system which runs a function with its declared parameters, injected by the app. Like other batched systems, it runs every time its
+ * schedule runs, even if it has no entities.
+ *
+ * Function systems are created with `system`.
+ */
+export default class FunctionSystem extends BatchSystem<[]> {
+  override readonly componentAccess: ComponentAccess | undefined;
+
+  override readonly resourceAccess: ResourceAccess;
+
+  /**
+   * Return the values of the parameters, in order.
+   */
+  private getters: (() => unknown)[];
+
+  constructor(
+    archetypeTable: ArchetypeTable,
+    commands: Commands,
+    resources: Resources,
+    /**
+     * The parameters of the function.
+     */
+    params: readonly SystemParam<unknown>[],
+    /**
+     * The function of the system.
+     */
+    private fn: (...values: unknown[]) => void | Promise<void>
+  ) {
+    super(archetypeTable, commands, resources);
+
+    this.getters = params.map(param =>
+      param.init({ archetypeTable, commands, resources })
+    );
+    // Without queries, the function may access any component, e.g. through the archetype table, so it declares no component access.
+    this.componentAccess = params.some(
+      param => param.componentAccess !== undefined
+    )
+      ? {
+          read: params.flatMap(param => param.componentAccess?.read ?? []),
+          write: params.flatMap(param => param.componentAccess?.write ?? []),
+        }
+      : undefined;
+    this.resourceAccess = {
+      read: params.flatMap(param => param.resourceAccess?.read ?? []),
+      write: params.flatMap(param => param.resourceAccess?.write ?? []),
+    };
+  }
+
+  /**
+   * Function systems select their entities through their parameters instead.
+   * @returns No entities.
+   */
+  override select(): Query<[]>[] {
+    return [];
+  }
+
+  override run(): void | Promise<void> {
+    return this.fn(...this.getters.map(get => get()));
+  }
+}
+
+/**
+ * Turns a function into a system, which the app runs with the values of its parameters, e.g. queries, resources, events, commands and
+ * local state. The types of the arguments of the function are inferred from the parameters.
+ *
+ * The returned class can be added to apps, and used in ordering constraints, like other system classes. It is named after the function.
+ * @param params The parameters of the function.
+ * @param fn The function, which can be async.
+ * @returns The class of the system.
+ */
+export function system<const P extends readonly SystemParam<unknown>[]>(
+  params: P,
+  fn: (...values: SystemParamValues<P>) => void | Promise<void>
+): SystemConstructor<[]> {
+  /**
+   * The class of the system, which passes the parameters and the function to every instance.
+   */
+  const type = class extends FunctionSystem {
+    constructor(
+      archetypeTable: ArchetypeTable,
+      commands: Commands,
+      resources: Resources
+    ) {
+      super(
+        archetypeTable,
+        commands,
+        resources,
+        params,
+        fn as (...values: unknown[]) => void | Promise<void>
+      );
+    }
+  };
+
+  Object.defineProperty(type, "name", { value: fn.name || "FunctionSystem" });
+
+  return type;
+}
@@ -0,0 +1,44 @@
+/**
+ * @module hierarchy.ts Contains the `Parent` and `Children` components, which form a hierarchy of entities.
+ *
+ * @example
+ * ```ts
+ * import { Parent, Children } from "@mapokapo/simecs";
+ *
+ * archetypeTable.add(turret, new Parent(tank));
+ * archetypeTable.get(tank, Children)?.entities; // [turret]
+ *
+ * archetypeTable.delete(tank); // deletes the turret as well
+ * ```
+ */
+
+import Component from "./component";
+import type { Entity } from "./entity";
+import Relation from "./relation";
+
+/**
+ * Makes an entity the child of another entity. The archetype table keeps the `Children` of the parent consistent with it, and deletes the
+ * child along with its parent.
+ */
+export class Parent extends Relation {
+  constructor(target: Entity) {
+    super("parent", target);
+  }
+}
+
+/**
+ * The children of an entity, i.e. the entities whose `Parent` points to it, in the order in which they became its children.
+ *
+ * Managed by the archetype table: it is added along with the first child, and removed along with the last one. Don't add or change it
+ * directly, change the `Parent` of the children instead. Removing it removes the `Parent` of all children, which keeps them as roots.
+ */
+export class Children extends Component {
+  constructor(
+    /**
+     * The children of the entity.
+     */
+    public readonly entities: Entity[] = []
+  ) {
+    super("children");
+  }
+}
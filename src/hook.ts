@@ -2,22 +2,73 @@
  * @module hook.ts Contains the base `Hook` class.
  */
 
-import type { Query } from "./archetypeTable";
-import type Component from "./component";
+import type { AppExitReason } from "./app";
+import type { Query, QueryComponents } from "./archetypeTable";
+import type { Command } from "./commands";
+import type { EventConstructor } from "./events";
+import type Schedule from "./schedule";
 import type System from "./system";
+import type SystemError from "./systemError";
 
 /**
- * A hook that can be used to run code at specific points in the ECS lifecycle.
+ * A hook that can be used to run code at specific points in the ECS lifecycle, e.g. for logging, profiling, tracing or replaying.
  */
 export default abstract class Hook {
+  /**
+   * Runs when the app starts running, before the startup schedules.
+   */
+  onStart?(): void | Promise<void>;
+
+  /**
+   * Runs when the app stops running, after the shutdown schedules. If the app stops because of an error, it runs with `"failed"`, without
+   * the shutdown schedules, before the error is thrown.
+   * @param reason The reason why the app stopped running.
+   */
+  onStop?(reason: AppExitReason): void | Promise<void>;
+
+  /**
+   * Runs before the main schedules of a frame. If none of them should run, the app completes without running `afterFrame`.
+   * @param frame The number of the frame, starting at 0.
+   */
+  beforeFrame?(frame: number): void | Promise<void>;
+
+  /**
+   * Runs after the main schedules of a frame have ran and the events have been updated.
+   * @param frame The number of the frame, starting at 0.
+   */
+  afterFrame?(frame: number): void | Promise<void>;
+
+  /**
+   * Runs before the systems of a schedule run. Runs for every step of schedules which run multiple times per frame.
+   * @param schedule The schedule that is about to run.
+   */
+  beforeSchedule?(schedule: Schedule): void | Promise<void>;
+
+  /**
+   * Runs after the systems of a schedule have ran, and their commands have been applied.
+   * @param schedule The schedule that just ran.
+   */
+  afterSchedule?(schedule: Schedule): void | Promise<void>;
+
+  /**
+   * Decides whether a system runs, before any of the hooks around it. Skipped systems count as not having ran.
+   * @param system The system that is about to run.
+   * @param queries An array of queries which are matched by the system.
+   * @returns True to run the system, false to skip it.
+   */
+  shouldRunSystem?(
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): boolean | Promise<boolean>;
+
   /**
    * Runs before a system runs a round of updates on a list of pre-known entities and their components.
    * @param system The system that is about to run.
    * @param queries An array of queries which are matched by the system.
    */
   beforeSystemUpdate?(
-    system: System<Component[]>,
-    queries: Query<Component[]>[]
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
   ): void | Promise<void>;
 
   /**
@@ -26,7 +77,65 @@ export default abstract class Hook {
    * @param queries An array of queries which are matched by the system.
    */
   afterSystemUpdate?(
-    system: System<Component[]>,
-    queries: Query<Component[]>[]
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): void | Promise<void>;
+
+  /**
+   * Decides whether a system updates an entity, before any of the hooks around the update. Not called for batched systems.
+   * @param system The system that is about to update the entity.
+   * @param query The entity and its selected components.
+   * @returns True to update the entity, false to skip it.
+   */
+  shouldUpdateEntity?(
+    system: System<QueryComponents>,
+    query: Query<QueryComponents>
+  ): boolean | Promise<boolean>;
+
+  /**
+   * Runs before a system updates an entity. Not called for batched systems.
+   * @param system The system that is about to update the entity.
+   * @param query The entity and its selected components.
+   */
+  beforeEntityUpdate?(
+    system: System<QueryComponents>,
+    query: Query<QueryComponents>
+  ): void | Promise<void>;
+
+  /**
+   * Runs after a system has updated an entity. Not called for batched systems.
+   * @param system The system that just updated the entity.
+   * @param query The entity and its selected components.
+   */
+  afterEntityUpdate?(
+    system: System<QueryComponents>,
+    query: Query<QueryComponents>
+  ): void | Promise<void>;
+
+  /**
+   * Runs when a system throws or rejects while updating an entity, before the error policy is applied.
+   * @param system The system that failed.
+   * @param error The thrown error, wrapped with the schedule, the entity and the applied policy.
+   * @param query The entity which the system was updating and its selected components, or undefined for batched systems.
+   */
+  onSystemError?(
+    system: System<QueryComponents>,
+    error: SystemError,
+    query: Query<QueryComponents> | undefined
+  ): void | Promise<void>;
+
+  /**
+   * Runs after the commands recorded by systems have been applied to the archetype table. Does not run if no commands were recorded.
+   * @param commands The applied commands, in the order in which they were applied.
+   */
+  afterCommandsFlush?(commands: readonly Command[]): void | Promise<void>;
+
+  /**
+   * Runs at the end of every frame, before the event buffers are swapped. Does not run for frames which are stepped manually, unless
+   * `App.updateEvents` is called.
+   * @param events The events sent during the frame, keyed by their class. Classes without events are left out.
+   */
+  beforeEventsUpdate?(
+    events: ReadonlyMap<EventConstructor, readonly object[]>
   ): void | Promise<void>;
 }
@@ -0,0 +1,270 @@
+/**
+ * @module prefabs.ts Contains the `Prefabs` class, which spawns entities from templates.
+ *
+ * @example
+ * ```ts
+ * import { Prefabs, ComponentRegistry } from "@mapokapo/simecs";
+ *
+ * const prefabs = new Prefabs(registry)
+ *  .add("wheel", { components: { position: { x: 0, y: 0 } } })
+ *  .add("car", {
+ *    components: { position: { x: 0, y: 0 }, velocity: { x: 0, y: 0 } },
+ *    children: [{ prefab: "wheel" }, { prefab: "wheel" }],
+ *  });
+ *
+ * prefabs.spawn(commands, "car", { position: { x: 10 } }); // a car at (10, 0) with two wheels
+ * ```
+ */
+
+import type Commands from "./commands";
+import type Component from "./component";
+import type ComponentRegistry from "./componentRegistry";
+import type {
+  SerializationContext,
+  SerializedValue,
+} from "./componentRegistry";
+import type { Entity } from "./entity";
+import { Parent } from "./hierarchy";
+
+/**
+ * Component data keyed by the registered names of the component types, in the format of their serializers.
+ */
+export type PrefabComponents = Record<string, SerializedValue>;
+
+/**
+ * A template of an entity, with its components and children.
+ */
+export interface Prefab {
+  /**
+   * The name of a prefab which this prefab is based on. Its components are overridden by the components of this prefab, and its children
+   * are spawned before the children of this prefab.
+   */
+  prefab?: string;
+  /**
+   * The components of the entity.
+   */
+  components?: PrefabComponents;
+  /**
+   * The children of the entity, which are spawned with a `Parent` pointing to it.
+   */
+  children?: Prefab[];
+}
+
+/**
+ * A prefab whose base prefabs have been merged into it.
+ */
+interface ResolvedPrefab {
+  /**
+   * The components of the entity.
+   */
+  components: PrefabComponents;
+  /**
+   * The children of the entity.
+   */
+  children: Prefab[];
+}
+
+/**
+ * Entity ids in prefabs refer to existing entities, so they are used as they are.
+ */
+const context: SerializationContext = { mapEntity: entity => entity };
+
+/**
+ * A library of named prefabs, which are templates of entities. Components are constructed with the serializers of a `ComponentRegistry`,
+ * so prefabs can be defined in code or loaded from JSON scene files.
+ *
+ * The app has its own prefabs, which are also available to systems as a resource.
+ */
+export default class Prefabs {
+  /**
+   * The prefabs, keyed by their name.
+   */
+  private prefabs = new Map<string, Prefab>();
+
+  constructor(
+    /**
+     * The registry which constructs the components of the prefabs.
+     */
+    public readonly registry: ComponentRegistry
+  ) {}
+
+  /**
+   * Adds a prefab.
+   * @param name The name of the prefab.
+   * @param prefab The prefab.
+   * @returns The prefabs instance.
+   * @throws If a prefab with the same name already exists.
+   */
+  public add(name: string, prefab: Prefab): this {
+    if (this.prefabs.has(name)) {
+      throw new Error(`Prefab '${name}' already exists`);
+    }
+
+    this.prefabs.set(name, prefab);
+
+    return this;
+  }
+
+  /**
+   * Adds the prefabs of a JSON scene file, which is an object of prefabs keyed by their name.
+   * @param json The contents of the scene file.
+   * @returns The prefabs instance.
+   * @throws If a prefab with the same name already exists.
+   */
+  public load(json: string): this {
+    for (const [name, prefab] of Object.entries(
+      JSON.parse(json) as Record<string, Prefab>
+    )) {
+      this.add(name, prefab);
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks if a prefab exists.
+   * @param name The name of the prefab.
+   * @returns True if the prefab exists, false otherwise.
+   */
+  public has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  /**
+   * Records spawning an entity from a prefab, along with its children.
+   * @param commands The commands to record the spawns with.
+   * @param name The name of the prefab.
+   * @param overrides Component data which overrides the data of the prefab. Objects are merged with the data of the prefab field by field,
+   * other values replace it.
+   * @returns The id of the new entity.
+   * @throws If the prefab does not exist, or one of its component types is not registered.
+   */
+  public spawn(
+    commands: Commands,
+    name: string,
+    overrides: PrefabComponents = {}
+  ): Entity {
+    return this.spawnPrefab(commands, { prefab: name, components: overrides });
+  }
+
+  /**
+   * Records spawning an entity from a prefab, and then its children.
+   * @param commands The commands to record the spawns with.
+   * @param prefab The prefab.
+   * @param parent The parent of the entity, if any.
+   * @returns The id of the new entity.
+   */
+  private spawnPrefab(
+    commands: Commands,
+    prefab: Prefab,
+    parent?: Entity
+  ): Entity {
+    /**
+     * The prefab, merged with its base prefabs.
+     */
+    const resolved = this.resolve(prefab, []);
+    /**
+     * The components of the entity.
+     */
+    const components: Component[] = Object.entries(resolved.components).map(
+      ([name, data]) => this.registry.deserialize(name, data, context)
+    );
+
+    if (parent !== undefined) {
+      components.push(new Parent(parent));
+    }
+
+    /**
+     * The new entity.
+     */
+    const entity = commands.spawn(...components);
+
+    for (const child of resolved.children) {
+      this.spawnPrefab(commands, child, entity);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Merges a prefab with its base prefabs.
+   * @param prefab The prefab.
+   * @param bases The names of the prefabs which are being resolved, used to detect cycles.
+   * @returns The resolved prefab.
+   * @throws If a base prefab does not exist, or a prefab is based on itself.
+   */
+  private resolve(prefab: Prefab, bases: string[]): ResolvedPrefab {
+    /**
+     * The components and children of the prefab itself.
+     */
+    const own: ResolvedPrefab = {
+      components: prefab.components ?? {},
+      children: prefab.children ?? [],
+    };
+
+    if (prefab.prefab === undefined) {
+      return own;
+    }
+
+    if (bases.includes(prefab.prefab)) {
+      throw new Error(
+        `Prefab '${prefab.prefab}' is based on itself: ${[...bases, prefab.prefab].join(" -> ")}`
+      );
+    }
+
+    /**
+     * The base prefab, if it exists.
+     */
+    const base = this.prefabs.get(prefab.prefab);
+
+    if (!base) {
+      throw new Error(`Prefab '${prefab.prefab}' does not exist`);
+    }
+
+    /**
+     * The base prefab, merged with its own base prefabs.
+     */
+    const resolvedBase = this.resolve(base, [...bases, prefab.prefab]);
+    /**
+     * The components of the base prefab, overridden by the components of the prefab.
+     */
+    const components = { ...resolvedBase.components };
+
+    for (const [name, data] of Object.entries(own.components)) {
+      components[name] = merge(components[name], data);
+    }
+
+    return {
+      components,
+      children: [...resolvedBase.children, ...own.children],
+    };
+  }
+}
+
+/**
+ * Overrides component data. Objects are merged field by field, other values are replaced.
+ * @param data The component data, if any.
+ * @param override The overriding data.
+ * @returns The merged data.
+ */
+function merge(
+  data: SerializedValue | undefined,
+  override: SerializedValue
+): SerializedValue {
+  if (isObject(data) && isObject(override)) {
+    return { ...data, ...override };
+  }
+
+  return override;
+}
+
+/**
+ * Checks if component data is an object, as opposed to an array or a primitive.
+ * @param data The component data.
+ * @returns True if the data is an object, false otherwise.
+ */
+function isObject(
+  data: SerializedValue | undefined
+): data is Record<string, SerializedValue> {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
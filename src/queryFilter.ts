@@ -0,0 +1,305 @@
+/**
+ * @module queryFilter.ts Contains the terms which can be used in queries: `Optional`, `With`, `Without`, `Or`, `Added`, `Changed` and `RelatesTo`.
+ *
+ * @example
+ * ```ts
+ * import { Optional, Without, Changed } from "./queryFilter";
+ *
+ * // Entities with a position and health, optionally with a shield, which are not frozen and whose health changed.
+ * const queries = archetypeTable.find(Position, Health, Optional(Shield), Without(Frozen), Changed(Health));
+ * queries.forEach((query) => {
+ *  const [position, health, shield] = query.components; // [Position, Health, Shield | undefined]
+ * });
+ * ```
+ */
+
+import type Archetype from "./archetype";
+import type { ComponentConstructor } from "./archetypeTable";
+import type Component from "./component";
+import type { Entity } from "./entity";
+import type Relation from "./relation";
+
+/**
+ * A filter narrows down the entities which match a query, without adding components to the results of the query.
+ */
+export default abstract class QueryFilter {
+  /**
+   * Checks if the entities of an archetype can match the filter.
+   * @param archetype The archetype to check.
+   * @returns True if the entities of the archetype can match the filter, false otherwise.
+   */
+  abstract matchesArchetype(archetype: Archetype): boolean;
+
+  /**
+   * Checks if a single entity matches the filter. Only called for archetypes which match the filter.
+   * @param archetype The archetype of the entity.
+   * @param row The row of the entity.
+   * @param lastRun The tick at which the query was last ran. Used for change detection.
+   * @returns True if the entity matches the filter, false otherwise.
+   */
+  matchesRow?(archetype: Archetype, row: number, lastRun: number): boolean;
+}
+
+/**
+ * A query term which adds a component to the results of a query if the entity has it, or `undefined` otherwise.
+ * @template T The component type.
+ */
+export class OptionalTerm<T extends Component = Component> {
+  constructor(
+    /**
+     * The optional component type.
+     */
+    public readonly type: ComponentConstructor<T>
+  ) {}
+}
+
+/**
+ * A term of a query. Component types and optional terms add components to the results of the query, while filters only narrow them down.
+ */
+export type QueryTerm = ComponentConstructor | OptionalTerm | QueryFilter;
+
+/**
+ * The components of the results of a query, derived from its terms.
+ *
+ * Component types result in their components, optional terms result in their components or `undefined`, and filters are left out.
+ * @template T The terms of the query.
+ */
+export type QueryData<T extends readonly QueryTerm[]> = T extends readonly [
+  infer Head,
+  ...infer Tail extends readonly QueryTerm[],
+]
+  ? Head extends QueryFilter
+    ? QueryData<Tail>
+    : Head extends OptionalTerm<infer C>
+      ? [C | undefined, ...QueryData<Tail>]
+      : Head extends ComponentConstructor<infer C>
+        ? [C, ...QueryData<Tail>]
+        : never
+  : [];
+
+/**
+ * Matches entities which have a component, without adding it to the results of the query.
+ */
+class WithFilter extends QueryFilter {
+  constructor(
+    /**
+     * The required component type.
+     */
+    private type: ComponentConstructor
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return archetype.has(this.type);
+  }
+}
+
+/**
+ * Matches entities which do not have a component.
+ */
+class WithoutFilter extends QueryFilter {
+  constructor(
+    /**
+     * The excluded component type.
+     */
+    private type: ComponentConstructor
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return !archetype.has(this.type);
+  }
+}
+
+/**
+ * Matches entities which match at least one of multiple filters.
+ */
+class OrFilter extends QueryFilter {
+  constructor(
+    /**
+     * The filters of which at least one must match.
+     */
+    private filters: QueryFilter[]
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return this.filters.some(filter => filter.matchesArchetype(archetype));
+  }
+
+  override matchesRow(
+    archetype: Archetype,
+    row: number,
+    lastRun: number
+  ): boolean {
+    return this.filters.some(
+      filter =>
+        filter.matchesArchetype(archetype) &&
+        (filter.matchesRow?.(archetype, row, lastRun) ?? true)
+    );
+  }
+}
+
+/**
+ * Matches entities whose component was added after the query was last ran.
+ */
+class AddedFilter extends QueryFilter {
+  constructor(
+    /**
+     * The component type which must have been added.
+     */
+    private type: ComponentConstructor
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return archetype.has(this.type);
+  }
+
+  override matchesRow(
+    archetype: Archetype,
+    row: number,
+    lastRun: number
+  ): boolean {
+    return (archetype.ticks(this.type)?.[row]?.added ?? -1) > lastRun;
+  }
+}
+
+/**
+ * Matches entities whose component was added or changed after the query was last ran.
+ */
+class ChangedFilter extends QueryFilter {
+  constructor(
+    /**
+     * The component type which must have been changed.
+     */
+    private type: ComponentConstructor
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return archetype.has(this.type);
+  }
+
+  override matchesRow(
+    archetype: Archetype,
+    row: number,
+    lastRun: number
+  ): boolean {
+    return (archetype.ticks(this.type)?.[row]?.changed ?? -1) > lastRun;
+  }
+}
+
+/**
+ * Matches entities whose relation points to a target entity.
+ */
+class RelatesToFilter extends QueryFilter {
+  constructor(
+    /**
+     * The relation type.
+     */
+    private type: ComponentConstructor<Relation>,
+    /**
+     * The entity which the relation must point to.
+     */
+    private target: Entity
+  ) {
+    super();
+  }
+
+  override matchesArchetype(archetype: Archetype): boolean {
+    return archetype.has(this.type);
+  }
+
+  override matchesRow(archetype: Archetype, row: number): boolean {
+    return archetype.column(this.type)?.[row]?.target === this.target;
+  }
+}
+
+/**
+ * Adds a component to the results of a query if the entity has it, or `undefined` otherwise.
+ * @param type The optional component type.
+ * @returns The query term.
+ */
+export function Optional<T extends Component>(
+  type: ComponentConstructor<T>
+): OptionalTerm<T> {
+  return new OptionalTerm(type);
+}
+
+/**
+ * Matches entities which have a component, without adding it to the results of the query.
+ * @param type The required component type.
+ * @returns The query filter.
+ */
+export function With(type: ComponentConstructor): QueryFilter {
+  return new WithFilter(type);
+}
+
+/**
+ * Matches entities which do not have a component.
+ * @param type The excluded component type.
+ * @returns The query filter.
+ */
+export function Without(type: ComponentConstructor): QueryFilter {
+  return new WithoutFilter(type);
+}
+
+/**
+ * Matches entities which match at least one of the provided filters. Component types are treated like `With` filters.
+ * @param filters The filters of which at least one must match.
+ * @returns The query filter.
+ *
+ * @example
+ * ```ts
+ * // Entities with a position and either a velocity or an acceleration.
+ * archetypeTable.find(Position, Or(Velocity, Acceleration));
+ * ```
+ */
+export function Or(
+  ...filters: (QueryFilter | ComponentConstructor)[]
+): QueryFilter {
+  return new OrFilter(
+    filters.map(filter =>
+      filter instanceof QueryFilter ? filter : With(filter)
+    )
+  );
+}
+
+/**
+ * Matches entities whose component was added since the query was last ran.
+ * @param type The component type which must have been added.
+ * @returns The query filter.
+ */
+export function Added(type: ComponentConstructor): QueryFilter {
+  return new AddedFilter(type);
+}
+
+/**
+ * Matches entities whose component was added or changed since the query was last ran.
+ *
+ * Components are changed when they are replaced with `ArchetypeTable.set`, or marked with `ArchetypeTable.markChanged`.
+ * @param type The component type which must have been changed.
+ * @returns The query filter.
+ */
+export function Changed(type: ComponentConstructor): QueryFilter {
+  return new ChangedFilter(type);
+}
+
+/**
+ * Matches entities whose relation of a type points to a target entity, e.g. all children of an entity with `RelatesTo(Parent, entity)`.
+ * @param type The relation type.
+ * @param target The entity which the relation must point to.
+ * @returns The query filter.
+ */
+export function RelatesTo(
+  type: ComponentConstructor<Relation>,
+  target: Entity
+): QueryFilter {
+  return new RelatesToFilter(type, target);
+}
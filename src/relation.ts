@@ -0,0 +1,39 @@
+/**
+ * @module relation.ts Contains the base `Relation` class.
+ *
+ * @example
+ * ```ts
+ * import { Relation, RelatesTo, type Entity } from "@mapokapo/simecs";
+ *
+ * class Targets extends Relation {
+ *  constructor(target: Entity) {
+ *    super("targets", target);
+ *  }
+ * }
+ *
+ * archetypeTable.add(turret, new Targets(enemy));
+ * archetypeTable.find(Targets, RelatesTo(Targets, enemy)); // every entity which targets the enemy
+ * ```
+ */
+
+import Component from "./component";
+import type { Entity } from "./entity";
+
+/**
+ * A component which relates its entity to another entity, e.g. a turret which targets an enemy. Relations are queried like any other
+ * component, and `RelatesTo` filters them by their target.
+ *
+ * Since relations are components, an entity can have at most one relation of each type. To change the target, replace the relation. When
+ * the target is deleted, the relation is removed from its entity.
+ */
+export default abstract class Relation extends Component {
+  constructor(
+    name: string,
+    /**
+     * The entity which the relation points to.
+     */
+    public readonly target: Entity
+  ) {
+    super(name);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @module resources.ts Contains the `Resources` class and the `ResourceConstructor` type.
+ *
+ * @example
+ * ```ts
+ * import Resources from "./resources";
+ *
+ * class Score {
+ *  constructor(public value = 0) {}
+ * }
+ *
+ * const resources = new Resources();
+ * resources.insert(new Score());
+ *
+ * resources.getOrThrow(Score).value += 10;
+ * ```
+ */
+
+/**
+ * Represents a constructor for a resource. Resources are identified by their class.
+ * @template T The resource type.
+ * @param args The arguments to pass to the constructor. This is simply used to satisfy the type system.
+ */
+export type ResourceConstructor<T extends object = object> = new (
+  ...args: never[]
+) => T;
+
+/**
+ * A store of resources, which are global singletons that don't belong to any entity, e.g. a frame clock, input state or configuration.
+ *
+ * There can be at most one resource of each class.
+ */
+export default class Resources {
+  /**
+   * The resources, keyed by their class.
+   */
+  private resources = new Map<ResourceConstructor, object>();
+
+  /**
+   * Inserts a resource, replacing the existing resource of the same class.
+   * @param resource The resource to insert.
+   */
+  public insert(resource: object): void {
+    this.resources.set(resource.constructor as ResourceConstructor, resource);
+  }
+
+  /**
+   * Checks if a resource exists.
+   * @param resource The class of the resource.
+   * @returns True if the resource exists, false otherwise.
+   */
+  public has(resource: ResourceConstructor): boolean {
+    return this.resources.has(resource);
+  }
+
+  /**
+   * Gets a resource.
+   * @param resource The class of the resource.
+   * @returns The resource, or undefined if it does not exist.
+   */
+  public get<T extends object>(
+    resource: ResourceConstructor<T>
+  ): T | undefined {
+    return this.resources.get(resource) as T | undefined;
+  }
+
+  /**
+   * Gets a resource which is expected to exist.
+   * @param resource The class of the resource.
+   * @returns The resource.
+   * @throws If the resource does not exist.
+   */
+  public getOrThrow<T extends object>(resource: ResourceConstructor<T>): T {
+    /**
+     * The resource, if it exists.
+     */
+    const value = this.get(resource);
+
+    if (value === undefined) {
+      throw new Error(`Resource '${resource.name}' does not exist`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Removes a resource.
+   * @param resource The class of the resource.
+   * @returns The removed resource, or undefined if it did not exist.
+   */
+  public remove<T extends object>(
+    resource: ResourceConstructor<T>
+  ): T | undefined {
+    /**
+     * The resource, if it exists.
+     */
+    const value = this.get(resource);
+
+    this.resources.delete(resource);
+
+    return value;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @module runCondition.ts Contains the `RunCondition` type and the `and`, `or` and `not` combinators.
+ *
+ * @example
+ * ```ts
+ * import App, { and, not } from "@mapokapo/simecs";
+ * import { everyNTicks, resourceExists } from "@mapokapo/simecs/core/conditions";
+ *
+ * const app = new App().addSystem(UPDATE_SCHEDULE, PathfindingSystem, {
+ *  runIf: and(not(resourceExists(Paused)), everyNTicks(10)),
+ * });
+ * ```
+ */
+
+import type Resources from "./resources";
+
+/**
+ * Decides if a system, or the systems of a set, should run when their schedule runs. Systems which should not run are skipped, as if they
+ * matched no entities.
+ * @param resources The resources of the app.
+ * @returns True if the systems should run, false otherwise.
+ */
+export type RunCondition = (resources: Resources) => boolean;
+
+/**
+ * Combines run conditions into one which is met when all of them are met. Conditions are checked in order, until one is not met.
+ * @param conditions The conditions to combine.
+ * @returns The combined condition.
+ */
+export function and(...conditions: RunCondition[]): RunCondition {
+  return resources => conditions.every(condition => condition(resources));
+}
+
+/**
+ * Combines run conditions into one which is met when any of them is met. Conditions are checked in order, until one is met.
+ * @param conditions The conditions to combine.
+ * @returns The combined condition.
+ */
+export function or(...conditions: RunCondition[]): RunCondition {
+  return resources => conditions.some(condition => condition(resources));
+}
+
+/**
+ * Inverts a run condition.
+ * @param condition The condition to invert.
+ * @returns A condition which is met when the condition is not met.
+ */
+export function not(condition: RunCondition): RunCondition {
+  return resources => !condition(resources);
+}
@@ -0,0 +1,50 @@
+/**
+ * @module runner.ts Contains the `Runner` class, which drives the main loop of the app.
+ *
+ * @example
+ * ```ts
+ * import App, { Runner } from "@mapokapo/simecs";
+ *
+ * class EveryOtherTickRunner extends Runner {
+ *  override async wait(signal: AbortSignal): Promise<void> {
+ *    await super.wait(signal);
+ *    await super.wait(signal);
+ *  }
+ * }
+ *
+ * const reason = await app.run({ runner: new EveryOtherTickRunner() });
+ * ```
+ */
+
+/**
+ * Decides when the app runs its next frame, i.e. its next round of schedules.
+ *
+ * The base runner yields to the event loop between frames with `setImmediate` (or `setTimeout` where it is not available), so that timers,
+ * I/O and servers get a chance to run, and otherwise runs frames as fast as possible.
+ */
+export default class Runner {
+  /**
+   * Waits until the app should run its next frame. Called before every frame.
+   * @param signal Aborted when the app is stopped. Waiting should end early once it is aborted.
+   * @returns A promise which resolves when the next frame should run.
+   */
+  public wait(signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+
+      if (typeof setImmediate === "function") {
+        setImmediate(resolve);
+      } else {
+        setTimeout(resolve, 0);
+      }
+    });
+  }
+
+  /**
+   * Runs once the app has stopped running, whether it completed, was stopped or threw an error.
+   */
+  finish?(): void;
+}
@@ -2,6 +2,18 @@
  * @module schedule.ts Contains the base `Schedule` class.
  */
 
+import type Resources from "./resources";
+
+/**
+ * When the app runs a schedule.
+ *
+ * - `"startup"` schedules run once when the app starts running.
+ * - `"main"` schedules run every frame, one after another, as a pipeline which repeats until the app stops.
+ * - `"shutdown"` schedules run once when the app stops running.
+ * - `"onDemand"` schedules only run when requested, with `Commands.runSchedule` or `App.step`.
+ */
+export type SchedulePhase = "startup" | "main" | "shutdown" | "onDemand";
+
 /**
  * A schedule is a way to group systems together and run them in a specific order.
  */
@@ -12,15 +24,39 @@ export default abstract class Schedule {
      */
     public name: string,
     /**
-     * The order in which the schedule should run. Lower values run
-     * sooner.
+     * The order in which the schedule should run within its phase. Lower values
+     * run sooner.
      */
     public order: number,
     /**
-     * A function that determines if the schedule should run. Once this function
-     * returns false, the app will move on to the next schedule in the list.
-     * Otherwise, the schedule will run indefinitely.
+     * A function that determines if the schedule should run. Main schedules are
+     * asked every frame, and once it returns false for all of them in a frame, the
+     * app completes. Startup and shutdown schedules are asked once.
      */
-    public shouldRun: () => boolean
+    public shouldRun: () => boolean,
+    /**
+     * When the app runs the schedule. Defaults to every frame.
+     */
+    public phase: SchedulePhase = "main"
   ) {}
+
+  /**
+   * Runs every time before the systems of the schedule run, e.g. to update resources which the systems depend on.
+   * @param resources The resources of the app.
+   */
+  prepare?(resources: Resources): void;
+
+  /**
+   * Returns how many times the systems of the schedule should run each time the app runs the schedule, e.g. to catch up with a fixed timestep.
+   * Defaults to once.
+   * @param resources The resources of the app.
+   * @returns The number of times to run the systems.
+   */
+  getStepCount?(resources: Resources): number;
+
+  /**
+   * Runs every time the app starts running, before the startup schedules, e.g. to reset state which is kept between frames in resources.
+   * @param resources The resources of the app.
+   */
+  reset?(resources: Resources): void;
 }
@@ -0,0 +1,667 @@
+/**
+ * @module snapshot.ts Contains the `serialize` and `deserialize` functions, which save and load all entities of an archetype table.
+ *
+ * @example
+ * ```ts
+ * import { ComponentRegistry, serialize, deserialize } from "@mapokapo/simecs";
+ *
+ * const registry = new ComponentRegistry().register("position", Position);
+ *
+ * const json = serialize(app.getArchetypeTable(), registry); // string
+ * const binary = serialize(app.getArchetypeTable(), registry, "binary"); // Uint8Array
+ *
+ * const entities = deserialize(new ArchetypeTable(), binary, registry); // maps saved ids to loaded ids
+ * ```
+ */
+
+import type ArchetypeTable from "./archetypeTable";
+import type ComponentRegistry from "./componentRegistry";
+import type {
+  SerializationContext,
+  SerializedValue,
+} from "./componentRegistry";
+import type { Entity } from "./entity";
+import { Children } from "./hierarchy";
+
+/**
+ * The formats which snapshots can be serialized to: a JSON string, or a compact binary encoding.
+ */
+export type SnapshotFormat = "json" | "binary";
+
+/**
+ * A saved entity.
+ */
+export interface EntitySnapshot {
+  /**
+   * The id of the entity when it was saved.
+   */
+  entity: Entity;
+  /**
+   * The serialized components of the entity, keyed by the registered names of their types.
+   */
+  components: Record<string, SerializedValue>;
+}
+
+/**
+ * The saved entities of an archetype table.
+ */
+export interface WorldSnapshot {
+  /**
+   * The version of the snapshot format.
+   */
+  version: number;
+  /**
+   * The saved entities, in the order of their creation.
+   */
+  entities: EntitySnapshot[];
+}
+
+/**
+ * The current version of the snapshot format.
+ */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * The bytes which binary snapshots start with.
+ */
+const BINARY_MAGIC = [0x53, 0x45, 0x43, 0x53];
+
+/**
+ * The tags which precede values in binary snapshots.
+ */
+const Tag = {
+  Null: 0,
+  False: 1,
+  True: 2,
+  Integer: 3,
+  NegativeInteger: 4,
+  Float: 5,
+  String: 6,
+  Array: 7,
+  Object: 8,
+} as const;
+
+/**
+ * Serializes all entities of an archetype table, along with their components. `Children` components are not saved, since they are restored
+ * from the `Parent` components.
+ * @param archetypeTable The archetype table.
+ * @param registry The registry of the component types.
+ * @param format The format of the snapshot.
+ * @returns The snapshot.
+ * @throws If a component type is not registered.
+ */
+export function serialize(
+  archetypeTable: ArchetypeTable,
+  registry: ComponentRegistry,
+  format?: "json"
+): string;
+export function serialize(
+  archetypeTable: ArchetypeTable,
+  registry: ComponentRegistry,
+  format: "binary"
+): Uint8Array;
+export function serialize(
+  archetypeTable: ArchetypeTable,
+  registry: ComponentRegistry,
+  format: SnapshotFormat = "json"
+): string | Uint8Array {
+  /**
+   * Entity ids are saved as they are.
+   */
+  const context: SerializationContext = { mapEntity: entity => entity };
+  /**
+   * The snapshot of the archetype table.
+   */
+  const snapshot: WorldSnapshot = {
+    version: SNAPSHOT_VERSION,
+    entities: archetypeTable.getEntities().map(entity => ({
+      entity,
+      components: Object.fromEntries(
+        (archetypeTable.getAll(entity) ?? [])
+          .filter(component => !(component instanceof Children))
+          .map(component => registry.serialize(component, context))
+      ),
+    })),
+  };
+
+  return format === "json" ? JSON.stringify(snapshot) : encode(snapshot);
+}
+
+/**
+ * Loads the entities of a snapshot into an archetype table. Each saved entity is created with a newly allocated id, so the snapshot can be
+ * loaded into an archetype table which already has entities. If loading fails, the loaded entities are deleted and their ids are freed, so
+ * the archetype table is left as it was.
+ * @param archetypeTable The archetype table.
+ * @param data The snapshot, as a JSON string or in the binary format.
+ * @param registry The registry of the component types.
+ * @returns The ids of the loaded entities, keyed by their ids in the snapshot.
+ * @throws If the snapshot is invalid, or a component type is not registered.
+ */
+export function deserialize(
+  archetypeTable: ArchetypeTable,
+  data: string | Uint8Array,
+  registry: ComponentRegistry
+): Map<Entity, Entity> {
+  /**
+   * The parsed snapshot.
+   */
+  const snapshot =
+    typeof data === "string"
+      ? (JSON.parse(data) as WorldSnapshot)
+      : decode(data);
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version: ${String(snapshot.version)}`
+    );
+  }
+
+  /**
+   * The loaded entities, keyed by their ids in the snapshot.
+   */
+  const entities = new Map<Entity, Entity>();
+  for (const { entity } of snapshot.entities) {
+    entities.set(entity, archetypeTable.allocate());
+  }
+
+  /**
+   * Maps entity references of the snapshot to the loaded entities.
+   */
+  const context: SerializationContext = {
+    mapEntity: entity => {
+      /**
+       * The loaded entity, if it is part of the snapshot.
+       */
+      const loaded = entities.get(entity);
+
+      if (loaded === undefined) {
+        throw new Error(
+          `Entity ${entity.toString()} is not part of the snapshot`
+        );
+      }
+
+      return loaded;
+    },
+  };
+
+  try {
+    /**
+     * The components of the loaded entities. They are all deserialized before any entity is created, so that most invalid snapshots fail
+     * before the archetype table is changed.
+     */
+    const components = snapshot.entities.map(({ entity, components }) => ({
+      entity: context.mapEntity(entity),
+      components: Object.entries(components).map(([name, value]) =>
+        registry.deserialize(name, value, context)
+      ),
+    }));
+
+    // Entities are created before their components are added, so that parents exist before their children refer to them.
+    for (const { entity } of components) {
+      archetypeTable.setAll(entity, []);
+    }
+    for (const { entity, components: entityComponents } of components) {
+      archetypeTable.addAll(entity, entityComponents);
+    }
+  } catch (error) {
+    // Deleting frees the ids of entities which were allocated but not created as well.
+    for (const loaded of entities.values()) {
+      if (archetypeTable.isAlive(loaded)) {
+        archetypeTable.delete(loaded);
+      }
+    }
+
+    throw error;
+  }
+
+  return entities;
+}
+
+/**
+ * Encodes a snapshot in the binary format. Names of component types and object keys are stored once, in a table of strings at the start.
+ * @param snapshot The snapshot.
+ * @returns The encoded snapshot.
+ */
+function encode(snapshot: WorldSnapshot): Uint8Array {
+  /**
+   * The writer of the values.
+   */
+  const body = new BinaryWriter();
+  /**
+   * The indices of the strings in the string table.
+   */
+  const strings = new Map<string, number>();
+
+  /**
+   * Gets the index of a string in the string table, adding it if needed.
+   * @param value The string.
+   * @returns The index of the string.
+   */
+  const stringIndex = (value: string): number => {
+    /**
+     * The index of the string, if it was already added.
+     */
+    let index = strings.get(value);
+
+    if (index === undefined) {
+      index = strings.size;
+      strings.set(value, index);
+    }
+
+    return index;
+  };
+
+  /**
+   * Writes a serialized value.
+   * @param value The value.
+   */
+  const writeValue = (value: SerializedValue): void => {
+    if (value === null) {
+      body.byte(Tag.Null);
+    } else if (typeof value === "boolean") {
+      body.byte(value ? Tag.True : Tag.False);
+    } else if (typeof value === "number") {
+      if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+        body.byte(value < 0 ? Tag.NegativeInteger : Tag.Integer);
+        body.varint(Math.abs(value));
+      } else {
+        body.byte(Tag.Float);
+        body.float(value);
+      }
+    } else if (typeof value === "string") {
+      body.byte(Tag.String);
+      body.string(value);
+    } else if (Array.isArray(value)) {
+      body.byte(Tag.Array);
+      body.varint(value.length);
+      value.forEach(writeValue);
+    } else {
+      /**
+       * The fields of the object.
+       */
+      const entries = Object.entries(value);
+
+      body.byte(Tag.Object);
+      body.varint(entries.length);
+      for (const [key, field] of entries) {
+        body.varint(stringIndex(key));
+        writeValue(field);
+      }
+    }
+  };
+
+  body.varint(snapshot.entities.length);
+  for (const { entity, components } of snapshot.entities) {
+    /**
+     * The components of the entity.
+     */
+    const entries = Object.entries(components);
+
+    body.varint(entity);
+    body.varint(entries.length);
+    for (const [name, value] of entries) {
+      body.varint(stringIndex(name));
+      writeValue(value);
+    }
+  }
+
+  /**
+   * The writer of the header and the string table.
+   */
+  const header = new BinaryWriter();
+  BINARY_MAGIC.forEach(byte => {
+    header.byte(byte);
+  });
+  header.varint(snapshot.version);
+  header.varint(strings.size);
+  for (const value of strings.keys()) {
+    header.string(value);
+  }
+
+  /**
+   * The encoded snapshot.
+   */
+  const bytes = new Uint8Array(header.bytes.length + body.bytes.length);
+  bytes.set(header.bytes);
+  bytes.set(body.bytes, header.bytes.length);
+
+  return bytes;
+}
+
+/**
+ * Decodes a snapshot in the binary format.
+ * @param data The encoded snapshot.
+ * @returns The snapshot.
+ * @throws If the data is not a valid binary snapshot.
+ */
+function decode(data: Uint8Array): WorldSnapshot {
+  /**
+   * The reader of the data.
+   */
+  const reader = new BinaryReader(data);
+
+  if (BINARY_MAGIC.some(byte => reader.byte() !== byte)) {
+    throw new Error("Invalid binary snapshot");
+  }
+
+  /**
+   * The version of the snapshot format.
+   */
+  const version = reader.varint();
+  if (version !== SNAPSHOT_VERSION) {
+    return { version, entities: [] };
+  }
+
+  /**
+   * The string table.
+   */
+  const strings = Array.from({ length: reader.varint() }, () =>
+    reader.string()
+  );
+
+  /**
+   * Reads an index into the string table.
+   * @returns The string.
+   */
+  const readString = (): string => {
+    /**
+     * The index of the string.
+     */
+    const index = reader.varint();
+
+    if (index >= strings.length) {
+      throw new Error("Invalid binary snapshot");
+    }
+
+    return strings[index] ?? "";
+  };
+
+  /**
+   * Reads a serialized value.
+   * @returns The value.
+   */
+  const readValue = (): SerializedValue => {
+    /**
+     * The tag of the value.
+     */
+    const tag = reader.byte();
+
+    switch (tag) {
+      case Tag.Null:
+        return null;
+      case Tag.False:
+        return false;
+      case Tag.True:
+        return true;
+      case Tag.Integer:
+        return reader.varint();
+      case Tag.NegativeInteger:
+        return -reader.varint();
+      case Tag.Float:
+        return reader.float();
+      case Tag.String:
+        return reader.string();
+      case Tag.Array:
+        return Array.from({ length: reader.varint() }, readValue);
+      case Tag.Object: {
+        /**
+         * The fields of the object.
+         */
+        const value: Record<string, SerializedValue> = {};
+        /**
+         * The number of fields.
+         */
+        const length = reader.varint();
+
+        for (let i = 0; i < length; i++) {
+          /**
+           * The key of the field, read before its value.
+           */
+          const key = readString();
+          value[key] = readValue();
+        }
+
+        return value;
+      }
+      default:
+        throw new Error("Invalid binary snapshot");
+    }
+  };
+
+  /**
+   * The saved entities.
+   */
+  const entities = Array.from(
+    { length: reader.varint() },
+    (): EntitySnapshot => {
+      /**
+       * The id of the entity.
+       */
+      const entity = reader.varint();
+      /**
+       * The components of the entity.
+       */
+      const components: Record<string, SerializedValue> = {};
+      /**
+       * The number of components.
+       */
+      const length = reader.varint();
+
+      for (let i = 0; i < length; i++) {
+        /**
+         * The registered name of the component type, read before its value.
+         */
+        const name = readString();
+        components[name] = readValue();
+      }
+
+      return { entity, components };
+    }
+  );
+
+  return { version, entities };
+}
+
+/**
+ * Writes bytes of a binary snapshot.
+ */
+class BinaryWriter {
+  /**
+   * The buffer which the bytes are written to, grown as needed.
+   */
+  private buffer = new Uint8Array(256);
+
+  /**
+   * The number of written bytes.
+   */
+  private length = 0;
+
+  /**
+   * A buffer for converting floats to bytes.
+   */
+  private view = new DataView(new ArrayBuffer(8));
+
+  /**
+   * The written bytes, sharing the buffer of the writer.
+   */
+  public get bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  /**
+   * Writes a byte.
+   * @param value The byte.
+   */
+  public byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  /**
+   * Writes a non-negative integer, in 7-bit groups with the highest bit set on all but the last group.
+   * @param value The integer, at most `Number.MAX_SAFE_INTEGER`.
+   */
+  public varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  /**
+   * Writes a 64-bit float.
+   * @param value The float.
+   */
+  public float(value: number): void {
+    this.view.setFloat64(0, value);
+    this.write(new Uint8Array(this.view.buffer));
+  }
+
+  /**
+   * Writes a string as its UTF-8 length and bytes.
+   * @param value The string.
+   */
+  public string(value: string): void {
+    /**
+     * The UTF-8 bytes of the string.
+     */
+    const encoded = new TextEncoder().encode(value);
+
+    this.varint(encoded.length);
+    this.write(encoded);
+  }
+
+  /**
+   * Writes bytes.
+   * @param bytes The bytes.
+   */
+  private write(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /**
+   * Grows the buffer, so that it fits a number of additional bytes.
+   * @param count The number of additional bytes.
+   */
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) {
+      return;
+    }
+
+    /**
+     * The grown buffer, at least doubled in size.
+     */
+    const buffer = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + count)
+    );
+    buffer.set(this.bytes);
+    this.buffer = buffer;
+  }
+}
+
+/**
+ * Reads bytes of a binary snapshot.
+ */
+class BinaryReader {
+  /**
+   * The position of the next byte.
+   */
+  private offset = 0;
+
+  constructor(
+    /**
+     * The bytes to read.
+     */
+    private data: Uint8Array
+  ) {}
+
+  /**
+   * Reads a byte.
+   * @returns The byte.
+   * @throws If there are no more bytes.
+   */
+  public byte(): number {
+    /**
+     * The byte, if the data is long enough.
+     */
+    const value = this.data[this.offset];
+
+    if (value === undefined) {
+      throw new Error("Invalid binary snapshot");
+    }
+
+    this.offset++;
+    return value;
+  }
+
+  /**
+   * Reads a non-negative integer written by `BinaryWriter.varint`.
+   * @returns The integer.
+   */
+  public varint(): number {
+    /**
+     * The integer read so far.
+     */
+    let value = 0;
+    /**
+     * The value of the lowest bit of the next group.
+     */
+    let multiplier = 1;
+    /**
+     * The current byte.
+     */
+    let byte = this.byte();
+
+    while (byte >= 0x80) {
+      value += (byte - 0x80) * multiplier;
+      multiplier *= 0x80;
+      byte = this.byte();
+    }
+
+    return value + byte * multiplier;
+  }
+
+  /**
+   * Reads a 64-bit float.
+   * @returns The float.
+   */
+  public float(): number {
+    /**
+     * The bytes of the float.
+     */
+    const bytes = this.bytes(8);
+
+    return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0);
+  }
+
+  /**
+   * Reads a string written by `BinaryWriter.string`.
+   * @returns The string.
+   */
+  public string(): string {
+    return new TextDecoder().decode(this.bytes(this.varint()));
+  }
+
+  /**
+   * Reads a number of bytes.
+   * @param length The number of bytes.
+   * @returns The bytes.
+   * @throws If there are not enough bytes.
+   */
+  private bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error("Invalid binary snapshot");
+    }
+
+    /**
+     * The bytes, sharing the buffer of the data.
+     */
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+
+    this.offset += length;
+    return bytes;
+  }
+}
@@ -2,31 +2,113 @@
  * @module system.ts Contains the base `System` class.
  */
 
-import type { Query } from "./archetypeTable";
+import type {
+  ComponentConstructor,
+  Query,
+  QueryComponents,
+} from "./archetypeTable";
 import type ArchetypeTable from "./archetypeTable";
-import type Component from "./component";
+import type CachedQuery from "./cachedQuery";
+import type Commands from "./commands";
 import type { Entity } from "./entity";
+import type Resources from "./resources";
+import type { ResourceConstructor } from "./resources";
+
+/**
+ * Represents the class of a system, which the app instantiates with its archetype table, commands and resources.
+ * @template T The type of components that the system operates on.
+ */
+export type SystemConstructor<T extends QueryComponents = QueryComponents> =
+  new (
+    archetypeTable: ArchetypeTable,
+    commands: Commands,
+    resources: Resources
+  ) => System<T>;
+
+/**
+ * The resources which a system declares to read or write.
+ */
+export interface ResourceAccess {
+  /**
+   * The resources which the system only reads.
+   */
+  read?: ResourceConstructor[];
+  /**
+   * The resources which the system reads and writes.
+   */
+  write?: ResourceConstructor[];
+}
+
+/**
+ * The component types which a system declares to read or write. Used by the concurrent executor to start systems which don't conflict
+ * together.
+ */
+export interface ComponentAccess {
+  /**
+   * The component types which the system only reads.
+   */
+  read?: ComponentConstructor[];
+  /**
+   * The component types which the system reads and writes.
+   */
+  write?: ComponentConstructor[];
+}
 
 /**
  * Represents a system in the ECS.
  *
  * @template T The type of components that the system operates on.
  */
-export default abstract class System<T extends Component[]> {
+export default abstract class System<T extends QueryComponents> {
   constructor(
     /**
-     * The archetype table that the system can use to create, read, update, and
-     * delete entities and components.
+     * The archetype table that the system can use to query and read entities
+     * and components.
      */
-    public archetypeTable: ArchetypeTable
+    public archetypeTable: ArchetypeTable,
+    /**
+     * The commands that the system can use to create and delete entities, and
+     * to add and remove components. Commands are applied after the system has
+     * finished updating, so that the entities it iterates over don't change.
+     */
+    public commands: Commands,
+    /**
+     * The resources that the system can use to read and write global
+     * singletons which don't belong to any entity.
+     */
+    public resources: Resources
   ) {}
 
+  /**
+   * The resources which the system reads or writes. Before running the system, the app checks that all of them exist.
+   */
+  readonly resourceAccess?: ResourceAccess;
+
+  /**
+   * The component types which the system reads or writes. Systems which don't declare it are assumed to conflict with every other system,
+   * so the concurrent executor runs them on their own.
+   */
+  readonly componentAccess?: ComponentAccess;
+
   /**
    * Queries entities from the archetype table.
+   *
+   * Returning a `CachedQuery` created once with `ArchetypeTable.query` avoids searching the archetype table on every update.
    * @returns The entities that match the system's query, with the needed components.
    */
+  abstract select(): Query<T>[] | CachedQuery<T>;
+
+  /**
+   * Runs once before the system first runs, e.g. to load assets or to create resources. Runs again if the app is run again after the
+   * system was torn down.
+   */
+  init?(): void | Promise<void>;
+
+  /**
+   * Runs once when the app stops running, after the shutdown schedules, if the system was initialized.
+   */
+  teardown?(): void | Promise<void>;
 
-  abstract select(): Query<T>[];
   /**
    * Updates an entity.
    * @param entity The entity to update.
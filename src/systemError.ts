@@ -0,0 +1,74 @@
+/**
+ * @module systemError.ts Contains the `SystemError` class and the `ErrorPolicy` type.
+ *
+ * @example
+ * ```ts
+ * import App, { SystemError } from "@mapokapo/simecs";
+ *
+ * const app = new App({ errorPolicy: "skip-entity" })
+ *  .addSystem(UPDATE_SCHEDULE, PathfindingSystem, { errorPolicy: { disableAfter: 10 } });
+ *
+ * try {
+ *  await app.run();
+ * } catch (error) {
+ *  if (error instanceof SystemError) {
+ *    console.error(error.system.constructor.name, error.schedule.name, error.entity, error.cause);
+ *  }
+ * }
+ * ```
+ */
+
+import type { Entity } from "./entity";
+import type Schedule from "./schedule";
+import type System from "./system";
+import type { QueryComponents } from "./archetypeTable";
+
+/**
+ * Decides what happens when a system throws or rejects while updating an entity:
+ * - `"abort"` throws the error from the app, which stops it.
+ * - `"skip-entity"` skips the entity, and the system keeps updating the other entities.
+ * - `"skip-system"` skips the rest of the entities, and the system doesn't run again until the next frame, see `App.resetSkippedSystems`.
+ * - `{ disableAfter: n }` skips the entity, and disables the system for good once it failed `n` times.
+ */
+export type ErrorPolicy =
+  "abort" | "skip-entity" | "skip-system" | { disableAfter: number };
+
+/**
+ * An error thrown by a system while updating an entity, along with where it happened. The original error is its `cause`.
+ */
+export default class SystemError extends Error {
+  constructor(
+    /**
+     * The system that failed.
+     */
+    public readonly system: System<QueryComponents>,
+    /**
+     * The schedule that the system ran on.
+     */
+    public readonly schedule: Schedule,
+    /**
+     * The entity which the system was updating, or undefined for batched systems, which update all entities at once.
+     */
+    public readonly entity: Entity | undefined,
+    /**
+     * The number of times the system has failed, including this time.
+     */
+    public readonly failures: number,
+    /**
+     * The policy which was applied to the error.
+     */
+    public readonly policy: ErrorPolicy,
+    cause: unknown
+  ) {
+    super(
+      `System '${system.constructor.name}' failed${
+        entity === undefined ? "" : ` on entity ${entity.toString()}`
+      } in schedule '${schedule.name}': ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause }
+    );
+
+    this.name = "SystemError";
+  }
+}
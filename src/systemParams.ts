@@ -0,0 +1,254 @@
+/**
+ * @module systemParams.ts Contains the `SystemParam` type and the parameters which function systems can declare.
+ *
+ * @example
+ * ```ts
+ * import { commands, eventReader, local, query, res, system } from "@mapokapo/simecs";
+ *
+ * const spawnOnClick = system(
+ *  [eventReader(Click), commands(), local(() => 0)],
+ *  (clicks, commands, count) => {
+ *    for (const click of clicks.read()) {
+ *      commands.spawn(new Position(click.x, click.y));
+ *      count.value++;
+ *    }
+ *  }
+ * );
+ * ```
+ */
+
+import type ArchetypeTable from "./archetypeTable";
+import type { ComponentConstructor } from "./archetypeTable";
+import type CachedQuery from "./cachedQuery";
+import type Commands from "./commands";
+import {
+  EventChannels,
+  type EventConstructor,
+  type EventReader,
+  type EventWriter,
+} from "./events";
+import { OptionalTerm, type QueryData, type QueryTerm } from "./queryFilter";
+import type Resources from "./resources";
+import type { ResourceConstructor } from "./resources";
+import type { ComponentAccess, ResourceAccess } from "./system";
+
+/**
+ * What a parameter of a function system is created with.
+ */
+export interface SystemParamContext {
+  /**
+   * The archetype table of the app.
+   */
+  archetypeTable: ArchetypeTable;
+  /**
+   * The commands of the app.
+   */
+  commands: Commands;
+  /**
+   * The resources of the app.
+   */
+  resources: Resources;
+}
+
+/**
+ * A parameter of a function system, which the app injects every time the system runs.
+ * @template T The value of the parameter.
+ */
+export interface SystemParam<T> {
+  /**
+   * The component types which the parameter reads or writes.
+   */
+  componentAccess?: ComponentAccess;
+  /**
+   * The resources which the parameter reads or writes. The app checks that all of them exist before running the system.
+   */
+  resourceAccess?: ResourceAccess;
+  /**
+   * Sets up the parameter for a system, once when the system is added to an app.
+   * @param context The archetype table, commands and resources of the app.
+   * @returns A function which returns the value of the parameter every time the system runs.
+   */
+  init(context: SystemParamContext): () => T;
+}
+
+/**
+ * The values of the parameters of a function system, in the order of the parameters.
+ * @template P The parameters.
+ */
+export type SystemParamValues<P extends readonly SystemParam<unknown>[]> = {
+  -readonly [K in keyof P]: P[K] extends SystemParam<infer T> ? T : never;
+};
+
+/**
+ * Mutable state which is kept between the runs of a function system.
+ * @template T The type of the state.
+ */
+export interface Local<T> {
+  /**
+   * The current state.
+   */
+  value: T;
+}
+
+/**
+ * A parameter which injects a cached query of entities which the system only reads. The query is created once, so change detection filters
+ * match changes since the previous run of the system. Its components are declared as read, so use `queryMut` to change them.
+ * @param terms The terms of the query.
+ * @returns The parameter.
+ */
+export function query<T extends QueryTerm[]>(
+  ...terms: T
+): SystemParam<CachedQuery<QueryData<T>>> {
+  return createQuery({ read: getQueriedTypes(terms) }, terms);
+}
+
+/**
+ * A parameter which injects a cached query of entities which the system reads and writes. Like `query`, but its components are declared as
+ * written.
+ * @param terms The terms of the query.
+ * @returns The parameter.
+ */
+export function queryMut<T extends QueryTerm[]>(
+  ...terms: T
+): SystemParam<CachedQuery<QueryData<T>>> {
+  return createQuery({ write: getQueriedTypes(terms) }, terms);
+}
+
+/**
+ * Collects the component types which a query fetches, including optional ones.
+ * @param terms The terms of the query.
+ * @returns The component types.
+ */
+function getQueriedTypes(terms: QueryTerm[]): ComponentConstructor[] {
+  return terms.flatMap(term =>
+    term instanceof OptionalTerm
+      ? [term.type]
+      : typeof term === "function"
+        ? [term]
+        : []
+  );
+}
+
+/**
+ * Creates a parameter which injects a cached query of entities.
+ * @param componentAccess The declared access of the query.
+ * @param terms The terms of the query.
+ * @returns The parameter.
+ */
+function createQuery<T extends QueryTerm[]>(
+  componentAccess: ComponentAccess,
+  terms: T
+): SystemParam<CachedQuery<QueryData<T>>> {
+  return {
+    componentAccess,
+    init({ archetypeTable }) {
+      /**
+       * The cached query.
+       */
+      const cachedQuery = archetypeTable.query(...terms);
+
+      return () => cachedQuery;
+    },
+  };
+}
+
+/**
+ * A parameter which injects a resource which the system only reads.
+ * @param resource The class of the resource.
+ * @returns The parameter.
+ */
+export function res<T extends object>(
+  resource: ResourceConstructor<T>
+): SystemParam<Readonly<T>> {
+  return {
+    resourceAccess: { read: [resource] },
+    init({ resources }) {
+      return () => resources.getOrThrow(resource);
+    },
+  };
+}
+
+/**
+ * A parameter which injects a resource which the system reads and writes.
+ * @param resource The class of the resource.
+ * @returns The parameter.
+ */
+export function resMut<T extends object>(
+  resource: ResourceConstructor<T>
+): SystemParam<T> {
+  return {
+    resourceAccess: { write: [resource] },
+    init({ resources }) {
+      return () => resources.getOrThrow(resource);
+    },
+  };
+}
+
+/**
+ * A parameter which injects a reader of events. The reader is created on the first run of the system, and keeps its position between runs.
+ * The `EventChannels` resource is declared as read.
+ * @param type The class of the events.
+ * @returns The parameter.
+ */
+export function eventReader<T extends object>(
+  type: EventConstructor<T>
+): SystemParam<EventReader<T>> {
+  return {
+    resourceAccess: { read: [EventChannels] },
+    init({ resources }) {
+      /**
+       * The reader, once it was created.
+       */
+      let reader: EventReader<T> | undefined;
+
+      return () =>
+        (reader ??= resources.getOrThrow(EventChannels).reader(type));
+    },
+  };
+}
+
+/**
+ * A parameter which injects a writer of events. The `EventChannels` resource is declared as written.
+ * @param type The class of the events.
+ * @returns The parameter.
+ */
+export function eventWriter<T extends object>(
+  type: EventConstructor<T>
+): SystemParam<EventWriter<T>> {
+  return {
+    resourceAccess: { write: [EventChannels] },
+    init({ resources }) {
+      return () => resources.getOrThrow(EventChannels).writer(type);
+    },
+  };
+}
+
+/**
+ * A parameter which injects the commands of the app, which are applied after the system has ran.
+ * @returns The parameter.
+ */
+export function commands(): SystemParam<Commands> {
+  return {
+    init(context) {
+      return () => context.commands;
+    },
+  };
+}
+
+/**
+ * A parameter which injects state that is kept between the runs of the system. Every system which is added to an app has its own state.
+ * @param initial Creates the initial state.
+ * @returns The parameter.
+ */
+export function local<T>(initial: () => T): SystemParam<Local<T>> {
+  return {
+    init() {
+      /**
+       * The state of the system.
+       */
+      const state = { value: initial() };
+
+      return () => state;
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * @module systemSet.ts Contains the `SystemSet` class and the types used to order systems.
+ *
+ * @example
+ * ```ts
+ * import App, { SystemSet } from "@mapokapo/simecs";
+ *
+ * const PHYSICS = new SystemSet("physics");
+ *
+ * const app = new App()
+ *  .configureSet(PHYSICS, { after: [InputSystem] })
+ *  .addSystem(UPDATE_SCHEDULE, MovementSystem, { sets: [PHYSICS] })
+ *  .addSystem(UPDATE_SCHEDULE, CollisionSystem, { sets: [PHYSICS], after: [MovementSystem] })
+ *  .addSystem(UPDATE_SCHEDULE, InputSystem);
+ *
+ * app.getSystemOrder(UPDATE_SCHEDULE); // [InputSystem, MovementSystem, CollisionSystem]
+ * ```
+ */
+
+import type { RunCondition } from "./runCondition";
+import type { SystemConstructor } from "./system";
+import type { ErrorPolicy } from "./systemError";
+
+/**
+ * A named group of systems, which can be ordered as a whole, e.g. all systems of a plugin.
+ *
+ * Sets are identified by their instance, not by their name.
+ */
+export default class SystemSet {
+  constructor(
+    /**
+     * A descriptive name of the set.
+     */
+    public readonly name: string
+  ) {}
+}
+
+/**
+ * Refers to systems in ordering constraints: a system class refers to every system of that class, and a set refers to every system in it.
+ */
+export type SystemLabel = SystemConstructor | SystemSet;
+
+/**
+ * Ordering constraints of a system or a set, relative to other systems in the same schedule. Labels which don't refer to any system in the
+ * schedule are ignored.
+ */
+export interface SystemOrdering {
+  /**
+   * The systems which must run after this one.
+   */
+  before?: SystemLabel[];
+  /**
+   * The systems which must run before this one.
+   */
+  after?: SystemLabel[];
+}
+
+/**
+ * Options for configuring a system set.
+ */
+export interface SystemSetOptions extends SystemOrdering {
+  /**
+   * A condition which must be met for the systems to run. It is checked at most once every time their schedule runs.
+   */
+  runIf?: RunCondition;
+}
+
+/**
+ * Options for adding a system to an app.
+ */
+export interface SystemOptions extends SystemSetOptions {
+  /**
+   * The sets which the system belongs to. The system follows the ordering constraints and run conditions of its sets.
+   */
+  sets?: SystemSet[];
+  /**
+   * What happens when the system fails to update an entity. Defaults to the error policy of the app.
+   */
+  errorPolicy?: ErrorPolicy;
+}
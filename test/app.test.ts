@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import App from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+import { STARTUP_SCHEDULE, UPDATE_SCHEDULE } from "../core/constants/mod";
+import { Time } from "../core/resources/mod";
+import { MovementSystem } from "../core/systems/mod";
+
+describe("Entities", () => {
+  it("should throw when adding an entity with duplicate components", () => {
+    const app = new App();
+
+    expect(() =>
+      app.addEntity(10, new Position(0, 0), new Position(1, 1))
+    ).toThrow();
+  });
+
+  it("should remove components from an entity", () => {
+    const app = new App()
+      .addEntity(10, new Position(0, 0), new Velocity(1, 1))
+      .removeComponents(10, Velocity);
+
+    expect(app.getArchetypeTable().getAll(10)).toEqual([new Position(0, 0)]);
+  });
+
+  it("should keep an entity without components", () => {
+    const app = new App()
+      .addEntity(10, new Position(0, 0))
+      .removeComponents(10, Position);
+
+    expect(app.getArchetypeTable().exists(10)).toBeTrue();
+    expect(() => app.addEntity(10)).toThrow();
+  });
+
+  it("should throw when removing components from a non-existent entity", () => {
+    expect(() => new App().removeComponents(10, Position)).toThrow();
+  });
+});
+
+describe("Entity ids", () => {
+  it("should generate ids which skip explicit ids", () => {
+    const app = new App().addEntity(0).addEntity(null).addEntity(null);
+
+    expect(app.getArchetypeTable().exists(0)).toBeTrue();
+    expect(app.getArchetypeTable().exists(1)).toBeTrue();
+    expect(app.getArchetypeTable().exists(2)).toBeTrue();
+  });
+
+  it("should detect stale ids of deleted entities", () => {
+    const app = new App().addEntity(null, new Position(0, 0));
+    const table = app.getArchetypeTable();
+
+    table.delete(0);
+    app.addEntity(null, new Position(1, 1));
+
+    expect(app.isAlive(0)).toBeFalse();
+    expect(table.exists(0)).toBeFalse();
+    expect(table.find(Position)).toHaveLength(1);
+    expect(app.isAlive(table.find(Position)[0]?.entity ?? 0)).toBeTrue();
+    expect(() => app.addEntity(0)).toThrow();
+  });
+});
+
+describe("Resources", () => {
+  it("should insert the time resource on the update schedule", async () => {
+    const app = new App();
+
+    expect(app.getResource(Time)).toBeUndefined();
+
+    await app.step(UPDATE_SCHEDULE);
+    await app.step(UPDATE_SCHEDULE);
+
+    expect(app.getResource(Time)?.frame).toBe(2);
+  });
+
+  it("should move entities by their velocity per second", async () => {
+    let now = 0;
+    const app = new App()
+      .insertResource(new Time(() => (now += 500)))
+      .addEntity(10, new Position(0, 0), new Velocity(2, 4))
+      .addSystem(UPDATE_SCHEDULE, MovementSystem);
+
+    await app.step(UPDATE_SCHEDULE);
+
+    expect(app.getResource(Time)?.delta).toBe(0.5);
+    expect(app.getResource(Time)?.elapsed).toBe(0.5);
+    expect(app.getArchetypeTable().get(10, Position)).toEqual(
+      new Position(1, 2)
+    );
+  });
+
+  it("should throw if a system requires a resource which does not exist", async () => {
+    const app = new App()
+      .addEntity(10, new Position(0, 0), new Velocity(2, 4))
+      .addSystem(STARTUP_SCHEDULE, MovementSystem);
+
+    await expect(app.step(STARTUP_SCHEDULE)).rejects.toThrow(
+      "System 'MovementSystem' failed in schedule 'startup': Required resource 'Time' does not exist"
+    );
+  });
+
+  it("should remove resources", () => {
+    const app = new App().insertResource(new Time()).removeResource(Time);
+
+    expect(app.getResource(Time)).toBeUndefined();
+  });
+});
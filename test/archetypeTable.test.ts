@@ -1,6 +1,16 @@
 import { beforeEach, describe, expect, it } from "bun:test";
-import { ArchetypeTable, Query } from "../mod";
+import {
+  Added,
+  ArchetypeTable,
+  Changed,
+  Optional,
+  Or,
+  Query,
+  With,
+  Without,
+} from "../mod";
 import { Position, Velocity } from "../core/components/mod";
+import Component from "../src/component";
 
 let table: ArchetypeTable;
 
@@ -88,6 +98,88 @@ describe("AddAll", () => {
   });
 });
 
+describe("Duplicates", () => {
+  it("should throw when adding a component of a type the entity already has", () => {
+    table.add(10, new Position(0, 0));
+
+    expect(() => table.add(10, new Position(1, 1))).toThrow();
+    expect(() =>
+      table.addAll(10, [new Velocity(1, 1), new Position(1, 1)])
+    ).toThrow();
+    expect(table.getAll(10)).toEqual([new Position(0, 0)]);
+  });
+
+  it("should throw when adding multiple components of the same type", () => {
+    expect(() =>
+      table.addAll(10, [new Position(0, 0), new Position(1, 1)])
+    ).toThrow();
+    expect(table.exists(10)).toBeFalse();
+  });
+});
+
+describe("Set", () => {
+  it("should add or replace components", () => {
+    table.set(10, new Position(0, 0));
+    table.setAll(10, [new Position(1, 1), new Velocity(1, 1)]);
+
+    expect(table.getAll(10)).toEqual([new Position(1, 1), new Velocity(1, 1)]);
+  });
+});
+
+describe("Remove", () => {
+  it("should remove a component from an entity", () => {
+    table.addAll(10, [new Position(0, 0), new Velocity(1, 1)]);
+
+    expect(table.remove(10, Velocity)).toEqual(new Velocity(1, 1));
+    expect(table.has(10, Velocity)).toBeFalse();
+    expect(table.getAll(10)).toEqual([new Position(0, 0)]);
+    expect(table.find(Position)).toEqual([new Query(10, [new Position(0, 0)])]);
+    expect(table.find(Velocity)).toBeEmpty();
+  });
+
+  it("should return undefined if the entity does not have the component", () => {
+    table.add(10, new Position(0, 0));
+
+    expect(table.remove(10, Velocity)).toBeUndefined();
+    expect(table.remove(15, Velocity)).toBeUndefined();
+    expect(table.getAll(10)).toEqual([new Position(0, 0)]);
+  });
+
+  it("should remove multiple components from an entity", () => {
+    table.addAll(10, [new Position(0, 0), new Velocity(1, 1)]);
+    table.removeAll(10, [Position, Velocity]);
+
+    expect(table.exists(10)).toBeTrue();
+    expect(table.getAll(10)).toEqual([]);
+    expect(table.find(Position)).toBeEmpty();
+  });
+
+  it("should update cached queries", () => {
+    const query = table.query(Position, Velocity);
+    table.addAll(10, [new Position(0, 0), new Velocity(1, 1)]);
+    table.addAll(15, [new Position(5, 5), new Velocity(1, 1)]);
+
+    table.remove(10, Velocity);
+
+    expect(query.toArray()).toEqual([
+      new Query(15, [new Position(5, 5), new Velocity(1, 1)]),
+    ]);
+  });
+
+  it("should stop updating released queries with new archetypes", () => {
+    const query = table.query(Position);
+    const kept = table.query(Position);
+    table.add(10, new Position(0, 0));
+
+    table.release(query);
+    table.release(query);
+    table.addAll(15, [new Position(5, 5), new Velocity(1, 1)]);
+
+    expect(query.toArray()).toEqual([new Query(10, [new Position(0, 0)])]);
+    expect(kept.toArray()).toHaveLength(2);
+  });
+});
+
 describe("Exists", () => {
   it("should return false for a non-existent entity", () => {
     expect(table.exists(10)).toBeFalse();
@@ -175,3 +267,185 @@ describe("Delete", () => {
     expect(table.exists(10)).toBeFalse();
   });
 });
+
+describe("Archetypes", () => {
+  it("should only find entities in archetypes which contain all of the components", () => {
+    table.add(1, new Position(1, 1));
+    table.addAll(2, [new Position(2, 2), new Velocity(2, 2)]);
+    table.add(3, new Velocity(3, 3));
+
+    expect(table.find(Position)).toEqual([
+      new Query(1, [new Position(1, 1)]),
+      new Query(2, [new Position(2, 2)]),
+    ]);
+    expect(table.find(Velocity, Position)).toEqual([
+      new Query(2, [new Velocity(2, 2), new Position(2, 2)]),
+    ]);
+  });
+
+  it("should keep other entities intact when an entity moves out of an archetype", () => {
+    table.add(1, new Position(1, 1));
+    table.add(2, new Position(2, 2));
+    table.add(3, new Position(3, 3));
+
+    table.add(1, new Velocity(1, 1));
+    table.delete(2);
+
+    expect(table.get(3, Position)).toEqual(new Position(3, 3));
+    expect(table.getAll(1)).toEqual([new Position(1, 1), new Velocity(1, 1)]);
+    expect(table.find(Position)).toEqual([
+      new Query(3, [new Position(3, 3)]),
+      new Query(1, [new Position(1, 1)]),
+    ]);
+  });
+
+  it("should replace a component of the same type", () => {
+    table.add(1, new Position(1, 1));
+    table.set(1, new Position(2, 2));
+
+    expect(table.getAll(1)).toEqual([new Position(2, 2)]);
+  });
+
+  it("should keep entities without components", () => {
+    table.addAll(1, []);
+
+    expect(table.exists(1)).toBeTrue();
+    expect(table.getAll(1)).toEqual([]);
+  });
+});
+
+describe("Query", () => {
+  it("should keep change detection separate for each query", () => {
+    const first = table.query(Position, Added(Position));
+    const second = table.query(Position, Added(Position));
+
+    table.add(10, new Position(0, 0));
+
+    expect(first.toArray()).toEqual([new Query(10, [new Position(0, 0)])]);
+    expect(second.toArray()).toEqual([new Query(10, [new Position(0, 0)])]);
+  });
+
+  it("should be kept up to date as entities change", () => {
+    const query = table.query(Position, Velocity);
+
+    expect(query.size).toBe(0);
+    expect(query.toArray()).toBeEmpty();
+
+    table.add(10, new Position(0, 0));
+    expect(query.size).toBe(0);
+
+    table.add(10, new Velocity(1, 1));
+    table.addAll(15, [new Velocity(2, 2), new Position(5, 5)]);
+    expect(query.size).toBe(2);
+    expect(query.toArray()).toEqual([
+      new Query(10, [new Position(0, 0), new Velocity(1, 1)]),
+      new Query(15, [new Position(5, 5), new Velocity(2, 2)]),
+    ]);
+
+    table.delete(10);
+    expect([...query]).toEqual([
+      new Query(15, [new Position(5, 5), new Velocity(2, 2)]),
+    ]);
+  });
+
+  it("should iterate over entities without collecting them", () => {
+    table.addAll(10, [new Position(0, 0), new Velocity(1, 1)]);
+
+    table.query(Position, Velocity).forEach((entity, [position, velocity]) => {
+      expect(entity).toBe(10);
+      position.x += velocity.x;
+    });
+
+    expect(table.get(10, Position)).toEqual(new Position(1, 0));
+  });
+});
+
+describe("Filters", () => {
+  class Frozen extends Component {
+    constructor() {
+      super("frozen");
+    }
+  }
+
+  beforeEach(() => {
+    table.addAll(1, [new Position(1, 1), new Velocity(1, 1)]);
+    table.addAll(2, [new Position(2, 2)]);
+    table.addAll(3, [new Position(3, 3), new Frozen()]);
+    table.addAll(4, [new Velocity(4, 4)]);
+  });
+
+  it("should find entities with optional components", () => {
+    const queries: Query<[Position, Velocity | undefined]>[] = table.find(
+      Position,
+      Optional(Velocity)
+    );
+
+    expect(queries).toEqual([
+      new Query(2, [new Position(2, 2), undefined]),
+      new Query(1, [new Position(1, 1), new Velocity(1, 1)]),
+      new Query(3, [new Position(3, 3), undefined]),
+    ]);
+  });
+
+  it("should find entities with and without components", () => {
+    expect(table.find(Position, With(Velocity))).toEqual([
+      new Query(1, [new Position(1, 1)]),
+    ]);
+    expect(table.find(Position, Without(Frozen))).toEqual([
+      new Query(2, [new Position(2, 2)]),
+      new Query(1, [new Position(1, 1)]),
+    ]);
+  });
+
+  it("should find entities with any of the components", () => {
+    expect(table.find(Or(Velocity, Frozen)).map(query => query.entity)).toEqual(
+      [1, 3, 4]
+    );
+    expect(
+      table
+        .find(Position, Or(Without(Velocity), With(Frozen)))
+        .map(query => query.entity)
+    ).toEqual([2, 3]);
+  });
+
+  it("should detect added components since the query last ran", () => {
+    const query = table.query(Position, Added(Velocity));
+
+    expect(query.toArray().map(result => result.entity)).toEqual([1]);
+    expect(query.toArray()).toBeEmpty();
+
+    table.advanceTick();
+    table.add(2, new Velocity(2, 2));
+
+    expect(query.toArray().map(result => result.entity)).toEqual([2]);
+    expect(query.toArray()).toBeEmpty();
+  });
+
+  it("should detect changed components since the query last ran", () => {
+    const query = table.query(Position, Changed(Position));
+
+    expect(query.size).toBe(3);
+    expect(query.toArray()).toHaveLength(3);
+    expect(query.size).toBe(0);
+
+    table.advanceTick();
+    table.set(1, new Position(10, 10));
+    table.markChanged(3, Position);
+    table.markChanged(2, Velocity);
+
+    expect(query.toArray()).toEqual([
+      new Query(1, [new Position(10, 10)]),
+      new Query(3, [new Position(3, 3)]),
+    ]);
+  });
+
+  it("should keep change detection ticks when entities move between archetypes", () => {
+    const query = table.query(Position, Changed(Position));
+    query.toArray();
+
+    table.advanceTick();
+    table.add(2, new Velocity(2, 2));
+
+    expect(query.toArray()).toBeEmpty();
+  });
+});
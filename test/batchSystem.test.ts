@@ -0,0 +1,211 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  BatchSystem,
+  CachedQuery,
+  Hook,
+  Query,
+  Schedule,
+  System,
+  SystemError,
+  type QueryComponents,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class AverageSystem extends BatchSystem<[Position]> {
+  public trace: string[] = [];
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override init(): void {
+    this.trace.push("init");
+  }
+
+  public received: Query<[Position]>[] = [];
+
+  override async run(queries: Query<[Position]>[]): Promise<void> {
+    await Promise.resolve();
+    this.received = queries;
+
+    const average =
+      queries.reduce((sum, { components: [position] }) => sum + position.x, 0) /
+      queries.length;
+
+    for (const {
+      components: [position],
+    } of queries) {
+      position.x = average;
+    }
+    this.trace.push(`run ${queries.length.toString()}`);
+  }
+
+  override teardown(): void {
+    this.trace.push("teardown");
+  }
+}
+
+class FailingBatchSystem extends BatchSystem<[Velocity]> {
+  private query = this.archetypeTable.query(Velocity);
+
+  override select(): CachedQuery<[Velocity]> {
+    return this.query;
+  }
+
+  override run(): void {
+    throw new Error("Broken");
+  }
+}
+
+class TraceHook extends Hook {
+  public trace: string[] = [];
+
+  override beforeSystemUpdate(
+    system: System<QueryComponents>,
+    queries: Query<QueryComponents>[]
+  ): void {
+    this.trace.push(
+      `before ${system.constructor.name} ${queries.length.toString()}`
+    );
+  }
+
+  override afterSystemUpdate(system: System<QueryComponents>): void {
+    this.trace.push(`after ${system.constructor.name}`);
+  }
+
+  override beforeEntityUpdate(): void {
+    this.trace.push("entity");
+  }
+
+  override onSystemError(
+    system: System<QueryComponents>,
+    error: SystemError,
+    query: Query<QueryComponents> | undefined
+  ): void {
+    this.trace.push(
+      `error ${system.constructor.name} ${String(query)} ${error.message}`
+    );
+  }
+}
+
+function getSystem(app: App, schedule: Schedule): AverageSystem {
+  const system = app.getSystemOrder(schedule)[0];
+
+  if (!(system instanceof AverageSystem)) {
+    throw new Error("AverageSystem was not added");
+  }
+
+  return system;
+}
+
+describe("BatchSystem", () => {
+  it("should update all entities in a single run", async () => {
+    const schedule = new FrameSchedule(1);
+    const hook = new TraceHook();
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addEntity(2, new Position(4, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, AverageSystem)
+      .addHook(hook);
+
+    await app.run();
+
+    expect(app.getArchetypeTable().get(1, Position)?.x).toBe(2);
+    expect(app.getArchetypeTable().get(2, Position)?.x).toBe(2);
+    expect(getSystem(app, schedule).trace).toEqual([
+      "init",
+      "run 2",
+      "teardown",
+    ]);
+    expect(hook.trace).toEqual([
+      "before AverageSystem 2",
+      "after AverageSystem",
+    ]);
+  });
+
+  it("should run even if no entities were selected", async () => {
+    const schedule = new FrameSchedule(2);
+    const hook = new TraceHook();
+    const app = new App()
+      .addSchedule(schedule)
+      .addSystem(schedule, AverageSystem)
+      .addHook(hook);
+
+    await app.run();
+
+    expect(getSystem(app, schedule).trace).toEqual([
+      "init",
+      "run 0",
+      "run 0",
+      "teardown",
+    ]);
+    expect(hook.trace).toEqual([
+      "before AverageSystem 0",
+      "after AverageSystem",
+      "before AverageSystem 0",
+      "after AverageSystem",
+    ]);
+  });
+
+  it("should initialize systems once, and again after a teardown", async () => {
+    const schedule = new FrameSchedule(0);
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSystem(schedule, AverageSystem);
+    const system = getSystem(app, schedule);
+
+    await app.step(schedule);
+    await app.step(schedule);
+    await app.teardownSystems();
+    await app.teardownSystems();
+    await app.step(schedule);
+
+    expect(system.trace).toEqual([
+      "init",
+      "run 1",
+      "run 1",
+      "teardown",
+      "init",
+      "run 1",
+    ]);
+  });
+
+  it("should run a single entity through update", async () => {
+    const schedule = new FrameSchedule(0);
+    const app = new App().addSystem(schedule, AverageSystem);
+    const position = new Position(3, 0);
+
+    await getSystem(app, schedule).update(1, [position]);
+
+    expect(position.x).toBe(3);
+    expect(getSystem(app, schedule).trace).toEqual(["run 1"]);
+    expect(getSystem(app, schedule).received[0]).toBeInstanceOf(Query);
+    expect(getSystem(app, schedule).received[0]?.entity).toBe(1);
+  });
+
+  it("should apply the error policy without an entity", async () => {
+    const schedule = new FrameSchedule(2);
+    const hook = new TraceHook();
+    const app = new App({ errorPolicy: "skip-entity" })
+      .addEntity(1, new Velocity(0, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, FailingBatchSystem)
+      .addHook(hook);
+
+    expect(await app.run()).toBe("completed");
+    expect(hook.trace).toContain(
+      "error FailingBatchSystem undefined System 'FailingBatchSystem' failed in schedule 'frames': Broken"
+    );
+    expect(hook.trace.filter(entry => entry.startsWith("error"))).toHaveLength(
+      2
+    );
+  });
+});
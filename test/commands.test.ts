@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import App, {
+  ArchetypeTable,
+  Commands,
+  Hook,
+  createEntity,
+  type Command,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+import StopAtTwoSystem from "./systems/stopAtTwo";
+
+describe("Commands", () => {
+  let table: ArchetypeTable;
+  let commands: Commands;
+  let lastEntityId: number;
+
+  beforeEach(() => {
+    table = new ArchetypeTable();
+    lastEntityId = 100;
+    commands = new Commands(() => lastEntityId++);
+  });
+
+  it("should not change the archetype table until applied", () => {
+    const entity = commands.spawn(new Position(0, 0));
+
+    expect(entity).toBe(100);
+    expect(commands.length).toBe(1);
+    expect(table.exists(entity)).toBeFalse();
+
+    commands.apply(table);
+
+    expect(commands.length).toBe(0);
+    expect(table.getAll(entity)).toEqual([new Position(0, 0)]);
+  });
+
+  it("should apply commands in the order in which they were recorded", () => {
+    const entity = commands.spawn(new Position(0, 0));
+    commands
+      .insert(entity, new Velocity(1, 1), new Position(1, 1))
+      .remove(entity, Velocity);
+    const other = commands.spawn(new Position(2, 2));
+    commands.despawn(other);
+
+    const applied = commands.apply(table);
+
+    expect(applied.map(command => command.type)).toEqual([
+      "spawn",
+      "insert",
+      "remove",
+      "spawn",
+      "despawn",
+    ]);
+    expect(table.getAll(entity)).toEqual([new Position(1, 1)]);
+    expect(table.exists(other)).toBeFalse();
+  });
+
+  it("should skip commands aimed at entities which were deleted", () => {
+    const entity = table.allocate();
+    table.addAll(entity, [new Position(0, 0)]);
+    commands
+      .despawn(entity)
+      .insert(entity, new Velocity(1, 1))
+      .remove(entity, Position)
+      .despawn(entity);
+    const other = commands.spawn(new Position(1, 1));
+
+    const applied = commands.apply(table);
+
+    expect(applied.map(command => command.type)).toEqual(["despawn", "spawn"]);
+    expect(table.exists(entity)).toBeFalse();
+    expect(table.isStale(entity)).toBeTrue();
+    expect(table.getAll(other)).toEqual([new Position(1, 1)]);
+  });
+
+  it("should apply the remaining commands when one fails", () => {
+    const taken = table.allocate();
+    table.addAll(taken, [new Position(0, 0)]);
+    commands.spawn(new Position(1, 1));
+    commands.insert(createEntity(taken, 1), new Velocity(1, 1));
+    const other = commands.spawn(new Position(2, 2));
+
+    expect(() => commands.apply(table)).toThrow("is already taken");
+    expect(commands.length).toBe(0);
+    expect(table.getAll(other)).toEqual([new Position(2, 2)]);
+  });
+});
+
+describe("Commands in systems", () => {
+  class FlushHook extends Hook {
+    public flushes: Command[][] = [];
+
+    override afterCommandsFlush(commands: readonly Command[]): void {
+      this.flushes.push([...commands]);
+    }
+  }
+
+  beforeEach(() => {
+    StopAtTwoSystem.entitiesDuringUpdate = [];
+  });
+
+  it("should apply commands after the system has updated every entity", async () => {
+    const hook = new FlushHook();
+    const app = new App()
+      .addEntity(10, new Position(2, 0), new Velocity(1, 1))
+      .addEntity(15, new Position(3, 0), new Velocity(1, 1))
+      .addSystem(UPDATE_SCHEDULE, StopAtTwoSystem)
+      .addHook(hook);
+
+    await app.step(UPDATE_SCHEDULE);
+
+    expect(StopAtTwoSystem.entitiesDuringUpdate).toEqual([2, 2]);
+    expect(app.getArchetypeTable().has(10, Velocity)).toBeFalse();
+    expect(app.getArchetypeTable().has(15, Velocity)).toBeFalse();
+    expect(hook.flushes).toEqual([
+      [
+        { type: "remove", entity: 10, components: [Velocity] },
+        { type: "remove", entity: 15, components: [Velocity] },
+      ],
+    ]);
+  });
+
+  it("should apply commands after every system of the schedule has ran", async () => {
+    const hook = new FlushHook();
+    const app = new App({ commandsSyncPoint: "schedule" })
+      .addEntity(10, new Position(2, 0), new Velocity(1, 1))
+      .addSystem(UPDATE_SCHEDULE, StopAtTwoSystem)
+      .addSystem(UPDATE_SCHEDULE, StopAtTwoSystem)
+      .addHook(hook);
+
+    await app.step(UPDATE_SCHEDULE);
+
+    expect(StopAtTwoSystem.entitiesDuringUpdate).toEqual([1, 1]);
+    expect(app.getArchetypeTable().has(10, Velocity)).toBeFalse();
+    expect(hook.flushes).toHaveLength(1);
+    expect(hook.flushes[0]).toHaveLength(2);
+  });
+
+  it("should not notify hooks if no commands were recorded", async () => {
+    const hook = new FlushHook();
+    const app = new App()
+      .addEntity(10, new Position(0, 0), new Velocity(1, 1))
+      .addSystem(UPDATE_SCHEDULE, StopAtTwoSystem)
+      .addHook(hook);
+
+    await app.step(UPDATE_SCHEDULE);
+
+    expect(hook.flushes).toBeEmpty();
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Component,
+  Schedule,
+  System,
+  type Entity,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+import {
+  DebugHook,
+  type DebugHookOptions,
+  type DebugLogger,
+  type LogLevel,
+} from "../core/hooks/mod";
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class MovementSystem extends System<[Position, Velocity]> {
+  private query = this.archetypeTable.query(Position, Velocity);
+
+  override select(): CachedQuery<[Position, Velocity]> {
+    return this.query;
+  }
+
+  override update(
+    _entity: Entity,
+    [position, velocity]: [Position, Velocity]
+  ): void {
+    position.x += velocity.x;
+    position.y += velocity.y;
+  }
+}
+
+class IdleSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(): void {}
+}
+
+class FailingSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(): void {
+    throw new Error("Broken");
+  }
+}
+
+class Inventory extends Component {
+  public items: number[] = [];
+  public value = 0n;
+  public owner: Inventory | undefined;
+
+  constructor() {
+    super("Inventory");
+  }
+}
+
+class CollectSystem extends System<[Inventory]> {
+  private query = this.archetypeTable.query(Inventory);
+
+  override select(): CachedQuery<[Inventory]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, [inventory]: [Inventory]): void {
+    inventory.items.push(5);
+    inventory.value += 10n;
+    inventory.owner = inventory;
+  }
+}
+
+class MemoryLogger implements DebugLogger {
+  public messages: { level: LogLevel; message: string }[] = [];
+
+  debug(message: string): void {
+    this.messages.push({ level: "debug", message });
+  }
+
+  info(message: string): void {
+    this.messages.push({ level: "info", message });
+  }
+
+  warn(message: string): void {
+    this.messages.push({ level: "warn", message });
+  }
+
+  error(message: string): void {
+    this.messages.push({ level: "error", message });
+  }
+}
+
+async function runLogged(
+  frames: number,
+  options: Omit<DebugHookOptions, "logger">
+): Promise<MemoryLogger> {
+  const logger = new MemoryLogger();
+  const schedule = new FrameSchedule(frames);
+
+  await new App()
+    .addEntity(1, new Position(0, 0), new Velocity(1, 0))
+    .addSchedule(schedule)
+    .addSystem(schedule, MovementSystem)
+    .addSystem(schedule, IdleSystem)
+    .addHook(new DebugHook({ ...options, logger }))
+    .run();
+
+  return logger;
+}
+
+describe("DebugHook", () => {
+  it("should log the app, frames, schedules and systems", async () => {
+    const logger = await runLogged(1, {});
+
+    expect(logger.messages.map(({ message }) => message)).toEqual([
+      "App started",
+      "Frame 0 started",
+      "Schedule 'frames' started",
+      "System 'MovementSystem' running on 1 entities with components: Position, Velocity",
+      "System 'MovementSystem' finished running on 1 entities",
+      "System 'IdleSystem' running on 1 entities with components: Position",
+      "System 'IdleSystem' finished running on 1 entities",
+      "Schedule 'frames' finished",
+      // the app completes when no main schedule runs in a frame
+      "Frame 1 started",
+      "App stopped: completed",
+    ]);
+  });
+
+  it("should only log messages at or above the level", async () => {
+    const logger = await runLogged(1, { level: "info" });
+
+    expect(logger.messages).toEqual([
+      { level: "info", message: "App started" },
+      { level: "info", message: "App stopped: completed" },
+    ]);
+  });
+
+  it("should only log the filtered systems and schedules", async () => {
+    const systems = await runLogged(1, { systems: [IdleSystem] });
+    const schedules = await runLogged(1, { schedules: [] });
+
+    expect(
+      systems.messages.filter(({ message }) => message.startsWith("System"))
+    ).toEqual([
+      {
+        level: "debug",
+        message:
+          "System 'IdleSystem' running on 1 entities with components: Position",
+      },
+      {
+        level: "debug",
+        message: "System 'IdleSystem' finished running on 1 entities",
+      },
+    ]);
+    expect(
+      schedules.messages.some(({ message }) =>
+        /^(System|Schedule)/.test(message)
+      )
+    ).toBe(false);
+  });
+
+  it("should log the component fields which a system changed", async () => {
+    const logger = await runLogged(1, {
+      systems: [MovementSystem],
+      dumpComponents: true,
+    });
+
+    expect(logger.messages.map(({ message }) => message)).toContain(
+      "Entity 1: Position.x 0 -> 1"
+    );
+    expect(
+      logger.messages.filter(({ message }) => message.startsWith("Entity"))
+    ).toHaveLength(1);
+  });
+
+  it("should log JSON lines", async () => {
+    const logger = await runLogged(1, {
+      format: "json",
+      systems: [MovementSystem],
+      dumpComponents: true,
+    });
+
+    expect(
+      logger.messages.map(({ message }) => JSON.parse(message) as unknown)
+    ).toContainEqual({
+      level: "debug",
+      message: "Entity 1: Position.x 0 -> 1",
+      system: "MovementSystem",
+      entity: 1,
+      component: "Position",
+      field: "x",
+      before: 0,
+      after: 1,
+    });
+  });
+
+  it("should log changes made in place, bigints and cycles", async () => {
+    const logger = new MemoryLogger();
+    const schedule = new FrameSchedule(1);
+
+    await new App()
+      .addEntity(1, new Inventory())
+      .addSchedule(schedule)
+      .addSystem(schedule, CollectSystem)
+      .addHook(new DebugHook({ logger, format: "json", dumpComponents: true }))
+      .run();
+
+    expect(
+      logger.messages
+        .map(({ message }) => JSON.parse(message) as Record<string, unknown>)
+        .filter(({ component }) => component === "Inventory")
+        .map(({ message, field, before, after }) => ({
+          message,
+          field,
+          before,
+          after,
+        }))
+    ).toEqual([
+      {
+        message: "Entity 1: Inventory.items.0 undefined -> 5",
+        field: "items.0",
+        before: undefined,
+        after: 5,
+      },
+      {
+        message: "Entity 1: Inventory.value 0 -> 10",
+        field: "value",
+        before: "0",
+        after: "10",
+      },
+      {
+        message: "Entity 1: Inventory.owner undefined -> [Circular]",
+        field: "owner",
+        before: undefined,
+        after: "[Circular]",
+      },
+    ]);
+  });
+
+  it("should only log every n-th frame", async () => {
+    const logger = await runLogged(5, { sampleEvery: 2 });
+
+    expect(
+      logger.messages
+        .map(({ message }) => message)
+        .filter(message => message.startsWith("Frame"))
+    ).toEqual(["Frame 0 started", "Frame 2 started", "Frame 4 started"]);
+    expect(
+      logger.messages.filter(({ message }) =>
+        message.startsWith("System 'MovementSystem' running")
+      )
+    ).toHaveLength(3);
+  });
+
+  it("should log system errors", async () => {
+    const logger = new MemoryLogger();
+    const schedule = new FrameSchedule(1);
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, FailingSystem)
+      .addHook(new DebugHook({ logger, level: "error" }));
+
+    await expect(app.run()).rejects.toThrow("Broken");
+    expect(logger.messages).toEqual([
+      {
+        level: "error",
+        message:
+          "System 'FailingSystem' failed on entity 1 in schedule 'frames': Broken",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import EntityAllocator from "../src/entityAllocator";
+import {
+  createEntity,
+  getEntityGeneration,
+  getEntityIndex,
+} from "../src/entity";
+
+let allocator: EntityAllocator;
+
+beforeEach(() => {
+  allocator = new EntityAllocator();
+});
+
+describe("Allocate", () => {
+  it("should allocate sequential entities", () => {
+    expect(allocator.allocate()).toBe(0);
+    expect(allocator.allocate()).toBe(1);
+    expect(allocator.allocate()).toBe(2);
+  });
+
+  it("should recycle freed indices with the next generation", () => {
+    const first = allocator.allocate();
+    allocator.allocate();
+
+    expect(allocator.free(first)).toBeTrue();
+
+    const recycled = allocator.allocate();
+
+    expect(getEntityIndex(recycled)).toBe(0);
+    expect(getEntityGeneration(recycled)).toBe(1);
+    expect(recycled).toBe(createEntity(0, 1));
+    expect(allocator.isAlive(first)).toBeFalse();
+    expect(allocator.isAlive(recycled)).toBeTrue();
+  });
+
+  it("should skip reserved indices", () => {
+    allocator.reserve(0);
+    allocator.reserve(2);
+
+    expect(allocator.allocate()).toBe(1);
+    expect(allocator.allocate()).toBe(3);
+  });
+});
+
+describe("Reserve", () => {
+  it("should throw for an index which is already taken", () => {
+    allocator.allocate();
+
+    expect(() => allocator.reserve(0)).toThrow();
+    expect(() => allocator.reserve(createEntity(0, 1))).toThrow();
+  });
+
+  it("should throw for stale entities", () => {
+    allocator.reserve(5);
+    allocator.free(5);
+
+    expect(() => allocator.reserve(5)).toThrow();
+
+    allocator.reserve(createEntity(5, 1));
+
+    expect(allocator.isAlive(createEntity(5, 1))).toBeTrue();
+  });
+
+  it("should not recycle a reserved index", () => {
+    const entity = allocator.allocate();
+    allocator.free(entity);
+    allocator.reserve(createEntity(0, 1));
+
+    expect(allocator.allocate()).toBe(1);
+  });
+
+  it("should reserve indices far beyond the allocated ones", () => {
+    const entity = createEntity(2 ** 31, 2);
+    allocator.reserve(entity);
+
+    expect(allocator.isAlive(entity)).toBeTrue();
+    expect(allocator.isStale(createEntity(2 ** 31, 1))).toBeTrue();
+    expect(allocator.allocate()).toBe(0);
+    expect(allocator.free(entity)).toBeTrue();
+    expect(allocator.allocate()).toBe(createEntity(2 ** 31, 3));
+  });
+
+  it("should recycle the other freed indices after reserving one", () => {
+    const [first, second, third] = [
+      allocator.allocate(),
+      allocator.allocate(),
+      allocator.allocate(),
+    ];
+    allocator.free(first);
+    allocator.free(second);
+    allocator.free(third);
+    allocator.reserve(createEntity(1, 1));
+    allocator.free(createEntity(1, 1));
+
+    expect(allocator.allocate()).toBe(createEntity(1, 2));
+    expect(allocator.allocate()).toBe(createEntity(2, 1));
+    expect(allocator.allocate()).toBe(createEntity(0, 1));
+    expect(allocator.allocate()).toBe(3);
+  });
+
+  it("should throw for invalid entities", () => {
+    expect(() => allocator.reserve(-1)).toThrow();
+    expect(() => allocator.reserve(1.5)).toThrow();
+  });
+});
+
+describe("Free", () => {
+  it("should return false for entities which are not alive", () => {
+    expect(allocator.free(0)).toBeFalse();
+
+    const entity = allocator.allocate();
+
+    expect(allocator.free(entity)).toBeTrue();
+    expect(allocator.free(entity)).toBeFalse();
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Hook,
+  Parent,
+  Schedule,
+  System,
+  SystemError,
+  type AppExitReason,
+  type Command,
+  type Entity,
+  type ErrorPolicy,
+  type QueryComponents,
+  type ResourceAccess,
+} from "../mod";
+import { Position } from "../core/components/mod";
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class FragileSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(entity: Entity, components: [Position]): void {
+    if (components[0].y < 0) {
+      throw new Error(`Entity ${entity.toString()} is out of bounds`);
+    }
+    components[0].x++;
+  }
+}
+
+class SteadySystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, components: [Position]): void {
+    components[0].y++;
+  }
+}
+
+class FollowUpSchedule extends Schedule {
+  constructor() {
+    super("followUp", 0, () => false, "onDemand");
+  }
+}
+
+const FOLLOW_UP_SCHEDULE = new FollowUpSchedule();
+
+class AdoptSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(entity: Entity, components: [Position]): void {
+    if (components[0].y < 0) {
+      this.commands.insert(entity, new Parent(999));
+    } else {
+      this.commands.insert(entity, new Position(10, 0));
+    }
+    if (entity === 1) {
+      this.commands.runSchedule(FOLLOW_UP_SCHEDULE);
+    }
+  }
+}
+
+class Gravity {
+  constructor(public value = 9.81) {}
+}
+
+class FallSystem extends SteadySystem {
+  override readonly resourceAccess: ResourceAccess = { read: [Gravity] };
+}
+
+class TornDownSystem extends FragileSystem {
+  public static teardowns = 0;
+
+  override teardown(): void {
+    TornDownSystem.teardowns++;
+  }
+}
+
+class ErrorHook extends Hook {
+  public errors: SystemError[] = [];
+
+  public flushed: Command[] = [];
+
+  public events: string[] = [];
+
+  override afterSchedule(schedule: Schedule): void {
+    this.events.push(`after ${schedule.name}`);
+  }
+
+  override onStop(reason: AppExitReason): void {
+    this.events.push(`stop ${reason}`);
+  }
+
+  override afterCommandsFlush(commands: readonly Command[]): void {
+    this.flushed.push(...commands);
+  }
+
+  override onSystemError(
+    _system: System<QueryComponents>,
+    error: SystemError
+  ): void {
+    this.errors.push(error);
+  }
+}
+
+function createApp(frames: number, errorPolicy?: ErrorPolicy) {
+  const schedule = new FrameSchedule(frames);
+  const hook = new ErrorHook();
+  const app = new App({ errorPolicy })
+    .addEntity(1, new Position(0, 0))
+    .addEntity(2, new Position(0, -10))
+    .addEntity(3, new Position(0, 0))
+    .addSchedule(schedule)
+    .addSystem(schedule, FragileSystem)
+    .addHook(hook);
+
+  return { app, hook, schedule };
+}
+
+function getX(app: App, entity: Entity): number | undefined {
+  return app.getArchetypeTable().get(entity, Position)?.x;
+}
+
+describe("Error policies", () => {
+  it("should abort with a wrapped error by default", async () => {
+    const { app, hook } = createApp(1);
+
+    const error = await app.run().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(SystemError);
+    expect(error).toBe(hook.errors[0]);
+    expect((error as SystemError).message).toBe(
+      "System 'FragileSystem' failed on entity 2 in schedule 'frames': Entity 2 is out of bounds"
+    );
+    expect((error as SystemError).entity).toBe(2);
+    expect((error as SystemError).schedule.name).toBe("frames");
+    expect((error as SystemError).system).toBeInstanceOf(FragileSystem);
+    expect((error as SystemError).cause).toEqual(
+      new Error("Entity 2 is out of bounds")
+    );
+    expect(getX(app, 3)).toBe(0);
+  });
+
+  it("should skip failing entities", async () => {
+    const { app, hook } = createApp(2, "skip-entity");
+
+    expect(await app.run()).toBe("completed");
+    expect(getX(app, 1)).toBe(2);
+    expect(getX(app, 3)).toBe(2);
+    expect(hook.errors.map(error => error.failures)).toEqual([1, 2]);
+    expect(hook.errors[0]?.policy).toBe("skip-entity");
+  });
+
+  it("should skip failing systems until the next frame", async () => {
+    const { app, hook, schedule } = createApp(0, "skip-system");
+
+    await app.step(schedule);
+    await app.step(schedule);
+    expect(getX(app, 1)).toBe(1);
+    expect(getX(app, 3)).toBe(0);
+    expect(hook.errors).toHaveLength(1);
+
+    app.resetSkippedSystems();
+    await app.step(schedule);
+    expect(getX(app, 1)).toBe(2);
+    expect(hook.errors).toHaveLength(2);
+  });
+
+  it("should let skipped systems run again in the next frame", async () => {
+    const { app, hook, schedule } = createApp(0, "skip-system");
+
+    app.advanceSchedule();
+    await app.step(schedule);
+    await app.step(schedule);
+    expect(getX(app, 1)).toBe(1);
+
+    // Advancing past the last main schedule starts a new frame.
+    app.advanceSchedule();
+    expect(app.getCurrentSchedule()).toBe(schedule);
+    await app.step(schedule);
+    expect(getX(app, 1)).toBe(2);
+    expect(hook.errors).toHaveLength(2);
+
+    const running = createApp(3, "skip-system");
+    expect(await running.app.run()).toBe("completed");
+    expect(getX(running.app, 1)).toBe(3);
+    expect(running.hook.errors).toHaveLength(3);
+  });
+
+  it("should handle missing resources with the error policy", async () => {
+    const schedule = new FrameSchedule(3);
+    const hook = new ErrorHook();
+    const app = new App({ errorPolicy: { disableAfter: 2 } })
+      .addEntity(1, new Position(0, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, FallSystem)
+      .addSystem(schedule, SteadySystem, { errorPolicy: "abort" })
+      .addHook(hook);
+
+    expect(await app.run()).toBe("completed");
+    expect(app.getArchetypeTable().get(1, Position)?.y).toBe(3);
+    expect(app.isSystemDisabled(FallSystem)).toBe(true);
+    expect(hook.errors.map(error => error.message)).toEqual([
+      "System 'FallSystem' failed in schedule 'frames': Required resource 'Gravity' does not exist",
+      "System 'FallSystem' failed in schedule 'frames': Required resource 'Gravity' does not exist",
+    ]);
+  });
+
+  it("should tear down systems and notify hooks when the app fails", async () => {
+    const schedule = new FrameSchedule(1);
+    const hook = new ErrorHook();
+    const app = new App()
+      .addEntity(2, new Position(0, -10))
+      .addSchedule(schedule)
+      .addSystem(schedule, TornDownSystem)
+      .addHook(hook);
+
+    TornDownSystem.teardowns = 0;
+    await expect(app.run()).rejects.toBeInstanceOf(SystemError);
+    expect(TornDownSystem.teardowns).toBe(1);
+    expect(hook.events).toEqual(["after frames", "stop failed"]);
+    expect(app.isRunning()).toBe(false);
+  });
+
+  it("should disable systems after a number of failures", async () => {
+    const { app, hook } = createApp(5, { disableAfter: 2 });
+
+    expect(await app.run()).toBe("completed");
+    expect(getX(app, 1)).toBe(2);
+    expect(getX(app, 3)).toBe(1);
+    expect(hook.errors).toHaveLength(2);
+    expect(app.isSystemDisabled(FragileSystem)).toBe(true);
+
+    app.enableSystem(FragileSystem);
+    expect(app.isSystemDisabled(FragileSystem)).toBe(false);
+  });
+
+  it("should handle failed commands with the error policy of their system", async () => {
+    const schedule = new FrameSchedule(1);
+    const hook = new ErrorHook();
+    const app = new App({ errorPolicy: "skip-entity" })
+      .addEntity(1, new Position(0, 0))
+      .addEntity(2, new Position(0, -10))
+      .addEntity(3, new Position(0, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, AdoptSystem)
+      .addSystem(FOLLOW_UP_SCHEDULE, SteadySystem)
+      .addHook(hook);
+
+    expect(await app.run()).toBe("completed");
+    expect(getX(app, 1)).toBe(10);
+    expect(getX(app, 3)).toBe(10);
+    // The follow-up schedule ran after the commands were applied.
+    expect(app.getArchetypeTable().get(1, Position)?.y).toBe(1);
+    expect(hook.flushed.map(command => command.type)).toEqual([
+      "insert",
+      "runSchedule",
+      "insert",
+    ]);
+    expect(hook.errors).toHaveLength(1);
+    expect(hook.errors[0]?.message).toBe(
+      "System 'AdoptSystem' failed on entity 2 in schedule 'frames': Parent 999 of entity 2 does not exist"
+    );
+  });
+
+  it("should abort on failed commands by default", async () => {
+    const schedule = new FrameSchedule(1);
+    const app = new App()
+      .addEntity(2, new Position(0, -10))
+      .addSchedule(schedule)
+      .addSystem(schedule, AdoptSystem);
+
+    await expect(app.step(schedule)).rejects.toThrow(
+      "System 'AdoptSystem' failed on entity 2 in schedule 'frames': Parent 999 of entity 2 does not exist"
+    );
+  });
+
+  it("should prefer the error policy of the system", async () => {
+    const schedule = new FrameSchedule(2);
+    const app = new App({ errorPolicy: "abort" })
+      .addEntity(1, new Position(0, -1))
+      .addSchedule(schedule)
+      .addSystem(schedule, FragileSystem, { errorPolicy: "skip-entity" })
+      .addSystem(schedule, SteadySystem);
+
+    expect(await app.run()).toBe("completed");
+    expect(app.getArchetypeTable().get(1, Position)?.y).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  EventChannels,
+  Events,
+  Hook,
+  System,
+  type Entity,
+  type EventConstructor,
+} from "../mod";
+import { Position } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+import { ManualRunner } from "../core/runners/mod";
+
+class CollisionEvent {
+  constructor(public frame: number) {}
+}
+
+const received: number[][] = [];
+const logged: number[][] = [];
+
+class ReadSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+  private collisions = this.resources
+    .getOrThrow(EventChannels)
+    .reader(CollisionEvent);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(): void {
+    received.push(this.collisions.read().map(event => event.frame));
+  }
+}
+
+class WriteSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+  private collisions = this.resources
+    .getOrThrow(EventChannels)
+    .writer(CollisionEvent);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, components: [Position]): void {
+    components[0].x++;
+    if (components[0].x <= 2) {
+      this.collisions.send(new CollisionEvent(components[0].x));
+    }
+  }
+}
+
+class LogHook extends Hook {
+  override beforeEventsUpdate(
+    events: ReadonlyMap<EventConstructor, readonly object[]>
+  ): void {
+    logged.push(
+      (events.get(CollisionEvent) ?? []).map(
+        event => (event as CollisionEvent).frame
+      )
+    );
+  }
+}
+
+describe("Events", () => {
+  it("should keep events for two frames", () => {
+    const events = new Events<CollisionEvent>();
+    events.send(new CollisionEvent(1));
+    events.update();
+    events.send(new CollisionEvent(2));
+
+    expect(events.read(0).map(event => event.frame)).toEqual([1, 2]);
+    expect(events.read(1).map(event => event.frame)).toEqual([2]);
+
+    events.update();
+    events.update();
+    expect(events.read(0)).toEqual([]);
+    expect(events.end).toBe(2);
+  });
+
+  it("should deliver every event to every reader once", async () => {
+    received.length = 0;
+    logged.length = 0;
+
+    // The first reader runs before the writer, the second one after it.
+    const app = new App()
+      .addEvent(CollisionEvent)
+      .addEntity(1, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, ReadSystem)
+      .addSystem(UPDATE_SCHEDULE, WriteSystem)
+      .addSystem(UPDATE_SCHEDULE, ReadSystem)
+      .addHook(new LogHook());
+    const runner = new ManualRunner();
+    const running = app.run({ runner });
+
+    await runner.advance(4);
+    app.stop();
+    await running;
+
+    expect(received).toEqual([[], [1], [1], [2], [2], [], [], []]);
+    expect(logged).toEqual([[1], [2], [], []]);
+  });
+
+  it("should send events from outside of systems", () => {
+    const app = new App().addEvent(CollisionEvent);
+    const reader = app.getResource(EventChannels)?.reader(CollisionEvent);
+
+    app.sendEvent(new CollisionEvent(1));
+    expect(reader?.read()).toEqual([new CollisionEvent(1)]);
+    expect(reader?.read()).toEqual([]);
+
+    expect(() => app.sendEvent(new Position(0, 0))).toThrow(
+      "Event 'Position' is not registered"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  System,
+  Component,
+  type ComponentAccess,
+  type QueryComponents,
+  type ResourceAccess,
+  query,
+  queryMut,
+  res,
+  system,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+
+const log: string[] = [];
+
+class Brain extends Component {
+  constructor() {
+    super("brain");
+  }
+}
+
+class Score {
+  constructor(public value = 0) {}
+}
+
+abstract class LogSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override async update(): Promise<void> {
+    log.push(`start ${this.constructor.name}`);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    log.push(`end ${this.constructor.name}`);
+  }
+}
+
+class PhysicsSystem extends LogSystem {
+  override readonly componentAccess: ComponentAccess = {
+    read: [Velocity],
+    write: [Position],
+  };
+}
+
+class AiSystem extends LogSystem {
+  override readonly componentAccess: ComponentAccess = { write: [Brain] };
+}
+
+class RenderSystem extends LogSystem {
+  override readonly componentAccess: ComponentAccess = { read: [Position] };
+}
+
+class ScoreSystem extends LogSystem {
+  override readonly componentAccess: ComponentAccess = {};
+  override readonly resourceAccess: ResourceAccess = { write: [Score] };
+}
+
+class UndeclaredSystem extends LogSystem {}
+
+function getNames(batches: System<QueryComponents>[][]): string[][] {
+  return batches.map(batch => batch.map(system => system.constructor.name));
+}
+
+describe("Concurrent executor", () => {
+  it("should batch systems which don't conflict", () => {
+    const app = new App({ executor: "concurrent" })
+      .insertResource(new Score())
+      .addSystem(UPDATE_SCHEDULE, PhysicsSystem)
+      .addSystem(UPDATE_SCHEDULE, AiSystem)
+      .addSystem(UPDATE_SCHEDULE, ScoreSystem)
+      .addSystem(UPDATE_SCHEDULE, RenderSystem)
+      .addSystem(UPDATE_SCHEDULE, UndeclaredSystem)
+      .addSystem(UPDATE_SCHEDULE, AiSystem);
+
+    expect(getNames(app.getSystemBatches(UPDATE_SCHEDULE))).toEqual([
+      ["PhysicsSystem", "AiSystem", "ScoreSystem"],
+      ["RenderSystem"],
+      ["UndeclaredSystem"],
+      ["AiSystem"],
+    ]);
+  });
+
+  it("should only batch function systems which query components", () => {
+    const withoutQueries = system([res(Score)], function withoutQueries() {
+      // Reads nothing but the score.
+    });
+    const withQueries = system(
+      [query(Velocity), res(Score)],
+      function withQueries() {
+        // Reads the velocities and the score.
+      }
+    );
+    const app = new App({ executor: "concurrent" })
+      .insertResource(new Score())
+      .addSystem(UPDATE_SCHEDULE, AiSystem)
+      .addSystem(UPDATE_SCHEDULE, withoutQueries)
+      .addSystem(UPDATE_SCHEDULE, AiSystem)
+      .addSystem(UPDATE_SCHEDULE, withQueries);
+
+    expect(getNames(app.getSystemBatches(UPDATE_SCHEDULE))).toEqual([
+      ["AiSystem"],
+      ["withoutQueries"],
+      ["AiSystem", "withQueries"],
+    ]);
+  });
+
+  it("should batch function systems which only read the same components", () => {
+    const first = system([query(Position)], function first() {
+      // Reads the positions.
+    });
+    const second = system([query(Position)], function second() {
+      // Reads the positions.
+    });
+    const writer = system([queryMut(Position)], function writer() {
+      // Writes the positions.
+    });
+    const app = new App({ executor: "concurrent" })
+      .addSystem(UPDATE_SCHEDULE, first)
+      .addSystem(UPDATE_SCHEDULE, second)
+      .addSystem(UPDATE_SCHEDULE, writer);
+
+    expect(getNames(app.getSystemBatches(UPDATE_SCHEDULE))).toEqual([
+      ["first", "second"],
+      ["writer"],
+    ]);
+  });
+
+  it("should not batch systems which are ordered relative to each other", () => {
+    const app = new App({ executor: "concurrent" })
+      .addSystem(UPDATE_SCHEDULE, PhysicsSystem)
+      .addSystem(UPDATE_SCHEDULE, AiSystem, { after: [PhysicsSystem] });
+
+    expect(getNames(app.getSystemBatches(UPDATE_SCHEDULE))).toEqual([
+      ["PhysicsSystem"],
+      ["AiSystem"],
+    ]);
+  });
+
+  it("should run the systems of a batch at the same time", async () => {
+    const app = new App({ executor: "concurrent" })
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, PhysicsSystem)
+      .addSystem(UPDATE_SCHEDULE, AiSystem)
+      .addSystem(UPDATE_SCHEDULE, RenderSystem);
+
+    log.length = 0;
+    await app.step(UPDATE_SCHEDULE);
+    expect(log).toEqual([
+      "start PhysicsSystem",
+      "start AiSystem",
+      "end PhysicsSystem",
+      "end AiSystem",
+      "start RenderSystem",
+      "end RenderSystem",
+    ]);
+  });
+
+  it("should run systems one after another by default", async () => {
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, PhysicsSystem)
+      .addSystem(UPDATE_SCHEDULE, AiSystem);
+
+    log.length = 0;
+    await app.step(UPDATE_SCHEDULE);
+    expect(log).toEqual([
+      "start PhysicsSystem",
+      "end PhysicsSystem",
+      "start AiSystem",
+      "end AiSystem",
+    ]);
+  });
+});
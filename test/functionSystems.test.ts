@@ -0,0 +1,171 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  Changed,
+  CachedQuery,
+  Commands,
+  EventChannels,
+  FunctionSystem,
+  Optional,
+  Schedule,
+  commands,
+  eventReader,
+  eventWriter,
+  local,
+  query,
+  queryMut,
+  res,
+  resMut,
+  system,
+  type EventReader,
+  type Local,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+import { Time } from "../core/resources/mod";
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class Score {
+  constructor(public value: number) {}
+}
+
+class Click {
+  constructor(public x: number) {}
+}
+
+const movement = system(
+  [queryMut(Position, Velocity), res(Time)],
+  function movement(entities, time) {
+    for (const {
+      components: [position, velocity],
+    } of entities) {
+      position.x += velocity.x * time.delta;
+    }
+  }
+);
+
+describe("Function systems", () => {
+  it("should inject queries and resources", async () => {
+    const schedule = new FrameSchedule(2);
+    const time = new Time();
+    time.delta = 2;
+    const app = new App()
+      .addEntity(1, new Position(0, 0), new Velocity(1, 0))
+      .addEntity(2, new Position(0, 0))
+      .insertResource(time)
+      .addSchedule(schedule)
+      .addSystem(schedule, movement);
+
+    await app.run();
+
+    expect(app.getArchetypeTable().get(1, Position)?.x).toBe(4);
+    expect(app.getArchetypeTable().get(2, Position)?.x).toBe(0);
+  });
+
+  it("should infer the types of the parameters", () => {
+    system(
+      [
+        query(Position, Optional(Velocity), Changed(Position)),
+        resMut(Score),
+        eventReader(Click),
+        commands(),
+        local(() => 0),
+      ],
+      (entities, score, clicks, commands, count) => {
+        const typed: [
+          CachedQuery<[Position, Velocity | undefined]>,
+          Score,
+          EventReader<Click>,
+          Commands,
+          Local<number>,
+        ] = [entities, score, clicks, commands, count];
+
+        expect(typed).toHaveLength(5);
+      }
+    );
+  });
+
+  it("should run without entities, and keep local state between runs", async () => {
+    const counts: number[] = [];
+    const counter = system([local(() => 0)], count => {
+      counts.push(++count.value);
+    });
+    const schedule = new FrameSchedule(3);
+    const app = new App()
+      .addSchedule(schedule)
+      .addSystem(schedule, counter)
+      .addSystem(schedule, counter);
+
+    await app.run();
+
+    expect(counts).toEqual([1, 1, 2, 2, 3, 3]);
+  });
+
+  it("should inject commands and events", async () => {
+    const clicked: number[] = [];
+    const schedule = new FrameSchedule(2);
+    const click = system([eventWriter(Click), local(() => 0)], (clicks, x) => {
+      clicks.send(new Click(x.value++));
+    });
+    const spawn = system(
+      [eventReader(Click), commands(), resMut(Score)],
+      (clicks, commands, score) => {
+        for (const event of clicks.read()) {
+          clicked.push(event.x);
+          commands.spawn(new Position(event.x, 0));
+          score.value++;
+        }
+      }
+    );
+    const app = new App()
+      .addEvent(Click)
+      .insertResource(new Score(0))
+      .addSchedule(schedule)
+      .addSystem(schedule, spawn, { after: [click] })
+      .addSystem(schedule, click);
+
+    await app.run();
+
+    expect(clicked).toEqual([0, 1]);
+    expect(app.getResource(Score)?.value).toBe(2);
+    expect(app.getArchetypeTable().find(Position)).toHaveLength(2);
+  });
+
+  it("should declare the access of its parameters", () => {
+    const schedule = new FrameSchedule(0);
+    const app = new App().addSystem(schedule, movement);
+    const [instance] = app.getSystemOrder(schedule);
+
+    expect(instance).toBeInstanceOf(FunctionSystem);
+    expect(instance?.constructor.name).toBe("movement");
+    expect(instance?.componentAccess).toEqual({
+      read: [],
+      write: [Position, Velocity],
+    });
+    expect(instance?.resourceAccess).toEqual({ read: [Time], write: [] });
+    expect(query(Position, Optional(Velocity)).componentAccess).toEqual({
+      read: [Position, Velocity],
+    });
+    expect(queryMut(Position, Optional(Velocity)).componentAccess).toEqual({
+      write: [Position, Velocity],
+    });
+    expect(eventReader(Click).resourceAccess).toEqual({
+      read: [EventChannels],
+    });
+    expect(eventWriter(Click).resourceAccess).toEqual({
+      write: [EventChannels],
+    });
+  });
+
+  it("should require the resources of its parameters", async () => {
+    const schedule = new FrameSchedule(1);
+    const app = new App().addSchedule(schedule).addSystem(schedule, movement);
+
+    await expect(app.run()).rejects.toThrow(
+      "System 'movement' failed in schedule 'frames': Required resource 'Time' does not exist"
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ArchetypeTable,
+  Children,
+  Commands,
+  Parent,
+  Relation,
+  RelatesTo,
+  type Entity,
+} from "../mod";
+import { Position } from "../core/components/mod";
+
+class Targets extends Relation {
+  constructor(target: Entity) {
+    super("targets", target);
+  }
+}
+
+describe("Hierarchy", () => {
+  it("should keep the children of the parent consistent", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Position(0, 0));
+    table.addAll(3, [new Position(0, 0), new Parent(1)]);
+    table.add(4, new Parent(1));
+
+    expect(table.getParent(3)).toBe(1);
+    expect(table.getChildren(1)).toEqual([3, 4]);
+    expect(table.get(1, Children)).toEqual(new Children([3, 4]));
+
+    // Reparenting moves the child.
+    table.set(3, new Parent(2));
+    expect(table.getChildren(1)).toEqual([4]);
+    expect(table.getChildren(2)).toEqual([3]);
+
+    // Removing the parent removes the child, and the `Children` component along with the last child.
+    table.remove(4, Parent);
+    expect(table.getChildren(1)).toEqual([]);
+    expect(table.has(1, Children)).toBeFalse();
+    expect(table.exists(4)).toBeTrue();
+  });
+
+  it("should traverse the hierarchy", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Parent(1));
+    table.add(3, new Parent(2));
+    table.add(4, new Parent(1));
+
+    expect(table.getAncestors(3)).toEqual([2, 1]);
+    expect(table.getAncestors(1)).toEqual([]);
+    expect(table.getDescendants(1)).toEqual([2, 3, 4]);
+    expect(table.getDescendants(3)).toEqual([]);
+  });
+
+  it("should delete descendants along with their ancestor", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Parent(1));
+    table.add(3, new Parent(2));
+    table.add(4, new Parent(1));
+    table.add(5, new Position(0, 0));
+
+    table.delete(2);
+    expect(table.exists(2)).toBeFalse();
+    expect(table.exists(3)).toBeFalse();
+    expect(table.isAlive(3)).toBeFalse();
+    expect(table.getChildren(1)).toEqual([4]);
+
+    table.delete(1);
+    expect(table.exists(4)).toBeFalse();
+    expect(table.exists(5)).toBeTrue();
+  });
+
+  it("should remove the parent of the children along with their `Children`", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Parent(1));
+    table.addAll(3, [new Position(0, 0), new Parent(1)]);
+
+    table.remove(1, Children);
+    expect(table.getChildren(1)).toEqual([]);
+    expect(table.getParent(2)).toBeUndefined();
+    expect(table.getParent(3)).toBeUndefined();
+    expect(table.exists(3)).toBeTrue();
+
+    // Deleting the former parent keeps its former children.
+    table.delete(1);
+    expect(table.exists(3)).toBeTrue();
+  });
+
+  it("should remove relations which point to a deleted entity", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Parent(1));
+    table.addAll(3, [new Position(0, 0), new Targets(1)]);
+    table.addAll(4, [new Position(0, 0), new Targets(2)]);
+    table.add(5, new Targets(4));
+
+    table.delete(1);
+    expect(table.has(3, Targets)).toBeFalse();
+    expect(table.get(3, Position)).toEqual(new Position(0, 0));
+    // The target was deleted along with its parent.
+    expect(table.has(4, Targets)).toBeFalse();
+    expect(table.get(5, Targets)).toEqual(new Targets(4));
+    expect(table.find(Targets).map(query => query.entity)).toEqual([5]);
+  });
+
+  it("should delete descendants with commands", () => {
+    const table = new ArchetypeTable();
+    const commands = new Commands(() => table.allocate());
+    const tank = commands.spawn(new Position(0, 0));
+    const turret = commands.spawn(new Position(0, 0), new Parent(tank));
+    commands.apply(table);
+
+    expect(table.getChildren(tank)).toEqual([turret]);
+
+    commands.despawn(tank).apply(table);
+    expect(table.exists(turret)).toBeFalse();
+  });
+
+  it("should reject invalid parents", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Parent(1));
+
+    expect(() => {
+      table.add(3, new Parent(10));
+    }).toThrow("Parent 10 of entity 3 does not exist");
+    expect(() => {
+      table.set(1, new Parent(2));
+    }).toThrow(
+      "Entity 2 cannot be the parent of entity 1, since that would create a cycle"
+    );
+    expect(() => {
+      table.set(1, new Parent(1));
+    }).toThrow(
+      "Entity 1 cannot be the parent of entity 1, since that would create a cycle"
+    );
+    expect(table.getParent(1)).toBeUndefined();
+  });
+
+  it("should query relations by their target", () => {
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+    table.add(2, new Position(1, 1));
+    table.addAll(3, [new Position(2, 2), new Targets(1)]);
+    table.addAll(4, [new Position(3, 3), new Targets(2)]);
+    table.addAll(5, [new Targets(1), new Parent(2)]);
+
+    expect(
+      table.find(Targets, RelatesTo(Targets, 1)).map(query => query.entity)
+    ).toEqual([3, 5]);
+    expect(
+      table
+        .query(Position, RelatesTo(Targets, 2))
+        .toArray()
+        .map(query => query.entity)
+    ).toEqual([4]);
+    expect(table.find(RelatesTo(Parent, 2)).map(query => query.entity)).toEqual(
+      [5]
+    );
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, beforeAll } from "bun:test";
 import App from "../mod";
 import { Position, Velocity } from "../core/components/mod";
 import { STARTUP_SCHEDULE, UPDATE_SCHEDULE } from "../core/constants/mod";
+import { Time } from "../core/resources/mod";
 import IncreaseXByOneSystem from "./systems/increaseXByOne";
 import { MovementSystem } from "../core/systems/mod";
 import NoopSystem from "./systems/noop";
@@ -11,7 +12,11 @@ import TestHook from "./hooks/test";
 describe("Hooks", () => {
   let app: App;
   beforeAll(() => {
+    // A clock which advances by one second whenever it is read, so that entities move by exactly their velocity on every update.
+    let now = 0;
+
     app = new App()
+      .insertResource(new Time(() => (now += 1000)))
       .addEntity(10, new Position(0, 0), new Velocity(1, 1))
       .addEntity(15, new Position(5, 5), new Velocity(-1, -1))
       .addSystem(STARTUP_SCHEDULE, IncreaseXByOneSystem)
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Hook,
+  Schedule,
+  System,
+  type AppExitReason,
+  type SystemError,
+  type Entity,
+  type Query,
+  type QueryComponents,
+} from "../mod";
+import { Position } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class IncreaseSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(entity: Entity, components: [Position]): void {
+    if (components[0].y < 0) {
+      throw new Error(`Entity ${entity.toString()} is out of bounds`);
+    }
+    components[0].x++;
+  }
+}
+
+class TraceHook extends Hook {
+  public trace: string[] = [];
+
+  override onStart(): void {
+    this.trace.push("start");
+  }
+
+  override onStop(reason: AppExitReason): void {
+    this.trace.push(`stop ${reason}`);
+  }
+
+  override beforeFrame(frame: number): void {
+    this.trace.push(`frame ${frame.toString()}`);
+  }
+
+  override afterFrame(frame: number): void {
+    this.trace.push(`end frame ${frame.toString()}`);
+  }
+
+  override beforeSchedule(schedule: Schedule): void {
+    this.trace.push(`schedule ${schedule.name}`);
+  }
+
+  override afterSchedule(schedule: Schedule): void {
+    this.trace.push(`end schedule ${schedule.name}`);
+  }
+
+  override beforeEntityUpdate(
+    _system: System<QueryComponents>,
+    query: Query<QueryComponents>
+  ): void {
+    this.trace.push(`entity ${query.entity.toString()}`);
+  }
+
+  override onSystemError(
+    system: System<QueryComponents>,
+    error: SystemError
+  ): void {
+    this.trace.push(
+      `error ${system.constructor.name} ${String(error.entity)} ${String(error.cause)}`
+    );
+  }
+}
+
+class SkipHook extends Hook {
+  public skipSystems = false;
+
+  override shouldRunSystem(): boolean {
+    return !this.skipSystems;
+  }
+
+  override shouldUpdateEntity(
+    _system: System<QueryComponents>,
+    query: Query<QueryComponents>
+  ): boolean {
+    return query.entity !== 2;
+  }
+}
+
+describe("Lifecycle hooks", () => {
+  it("should run hooks around the app, frames, schedules and entities", async () => {
+    const hook = new TraceHook();
+    const schedule = new FrameSchedule(2);
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSchedule(schedule)
+      .addSystem(schedule, IncreaseSystem)
+      .addHook(hook);
+
+    expect(await app.run()).toBe("completed");
+    expect(hook.trace).toEqual([
+      "start",
+      "frame 0",
+      "schedule frames",
+      "entity 1",
+      "end schedule frames",
+      "end frame 0",
+      "frame 1",
+      "schedule frames",
+      "entity 1",
+      "end schedule frames",
+      "end frame 1",
+      "frame 2",
+      "stop completed",
+    ]);
+  });
+
+  it("should let hooks skip systems and entities", async () => {
+    const hook = new SkipHook();
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addEntity(2, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, IncreaseSystem)
+      .addHook(hook);
+    const table = app.getArchetypeTable();
+
+    await app.step(UPDATE_SCHEDULE);
+    expect(table.get(1, Position)?.x).toBe(1);
+    expect(table.get(2, Position)?.x).toBe(0);
+
+    hook.skipSystems = true;
+    await app.step(UPDATE_SCHEDULE);
+    expect(table.get(1, Position)?.x).toBe(1);
+  });
+
+  it("should report system errors to hooks", async () => {
+    const hook = new TraceHook();
+    const app = new App()
+      .addEntity(1, new Position(0, -1))
+      .addSystem(UPDATE_SCHEDULE, IncreaseSystem)
+      .addHook(hook);
+
+    await expect(app.step(UPDATE_SCHEDULE)).rejects.toThrow(
+      "Entity 1 is out of bounds"
+    );
+    expect(hook.trace).toContain(
+      "error IncreaseSystem 1 Error: Entity 1 is out of bounds"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "bun:test";
+import App, { ArchetypeTable, Parent } from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+
+describe("Component observers", () => {
+  it("should observe added, replaced and removed components", () => {
+    const table = new ArchetypeTable();
+    const log: string[] = [];
+    const stop = table.observe(Position, {
+      onAdd: (entity, position) => {
+        log.push(`add ${entity.toString()} ${position.x.toString()}`);
+      },
+      onInsert: (entity, position, previous) => {
+        log.push(
+          `insert ${entity.toString()} ${position.x.toString()} ${String(previous?.x)}`
+        );
+      },
+      onRemove: (entity, position) => {
+        log.push(`remove ${entity.toString()} ${position.x.toString()}`);
+        expect(table.has(entity, Position)).toBeTrue();
+      },
+    });
+
+    table.addAll(1, [new Position(1, 0), new Velocity(0, 0)]);
+    table.set(1, new Position(2, 0));
+    table.remove(1, Velocity);
+    table.remove(1, Position);
+    table.remove(1, Position);
+
+    expect(log).toEqual([
+      "add 1 1",
+      "insert 1 1 undefined",
+      "insert 1 2 1",
+      "remove 1 2",
+    ]);
+
+    stop();
+    table.add(1, new Position(3, 0));
+    expect(log).toHaveLength(4);
+  });
+
+  it("should observe deleted entities and their descendants", () => {
+    const table = new ArchetypeTable();
+    const log: string[] = [];
+    table.observe(Position, {
+      onDespawn: entity => {
+        log.push(`despawn ${entity.toString()}`);
+      },
+      onRemove: entity => {
+        log.push(`remove ${entity.toString()}`);
+      },
+    });
+
+    table.add(1, new Position(0, 0));
+    table.addAll(2, [new Position(0, 0), new Parent(1)]);
+    table.add(3, new Velocity(0, 0));
+    table.delete(1);
+    table.delete(3);
+
+    expect(log).toEqual(["despawn 2", "remove 2", "despawn 1", "remove 1"]);
+  });
+
+  it("should observe changes made through the app", () => {
+    const spatialIndex = new Set<number>();
+    const app = new App().addObserver(Position, {
+      onAdd: entity => spatialIndex.add(entity),
+      onRemove: entity => spatialIndex.delete(entity),
+    });
+    app.addEntity(1, new Position(0, 0)).addEntity(2, new Position(0, 0));
+    expect([...spatialIndex]).toEqual([1, 2]);
+
+    app.removeComponents(1, Position);
+    expect([...spatialIndex]).toEqual([2]);
+  });
+});
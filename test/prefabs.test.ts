@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Commands,
+  ComponentRegistry,
+  Prefabs,
+  System,
+  type Entity,
+} from "../mod";
+import { Position, Transform, Velocity } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+
+function createRegistry(): ComponentRegistry {
+  return new ComponentRegistry()
+    .register("position", Position)
+    .register("velocity", Velocity);
+}
+
+const scene = JSON.stringify({
+  wheel: { components: { position: { x: 0, y: 0 } } },
+  car: {
+    components: { position: { x: 0, y: 0 }, velocity: { x: 1, y: 0 } },
+    children: [
+      { prefab: "wheel", components: { position: { x: -1 } } },
+      { prefab: "wheel", components: { position: { x: 1 } } },
+    ],
+  },
+  truck: {
+    prefab: "car",
+    components: { velocity: { x: 0.5 } },
+    children: [{ prefab: "wheel" }],
+  },
+});
+
+describe("Prefabs", () => {
+  it("should spawn prefabs with their children", () => {
+    const app = new App({ registry: createRegistry() }).loadPrefabs(scene);
+    const table = app.getArchetypeTable();
+
+    const car = app.spawnPrefab("car", { position: { y: 5 } });
+
+    expect(table.get(car, Position)).toEqual(new Position(0, 5));
+    expect(table.get(car, Position)).toBeInstanceOf(Position);
+    expect(table.get(car, Velocity)).toEqual(new Velocity(1, 0));
+    expect(
+      table.getChildren(car).map(wheel => table.get(wheel, Position)?.x)
+    ).toEqual([-1, 1]);
+  });
+
+  it("should extend other prefabs", () => {
+    const app = new App({ registry: createRegistry() }).loadPrefabs(scene);
+    const table = app.getArchetypeTable();
+
+    const truck = app.spawnPrefab("truck");
+
+    expect(table.get(truck, Velocity)).toEqual(new Velocity(0.5, 0));
+    expect(table.getChildren(truck)).toHaveLength(3);
+  });
+
+  it("should spawn prefabs from systems", async () => {
+    class SpawnSystem extends System<[Position]> {
+      private query = this.archetypeTable.query(Position);
+
+      override select(): CachedQuery<[Position]> {
+        return this.query;
+      }
+
+      override update(_entity: Entity, components: [Position]): void {
+        this.resources
+          .getOrThrow(Prefabs)
+          .spawn(this.commands, "wheel", { position: { x: components[0].x } });
+      }
+    }
+
+    const app = new App({ registry: createRegistry() })
+      .loadPrefabs(scene)
+      .addEntity(1, new Position(3, 0))
+      .addSystem(UPDATE_SCHEDULE, SpawnSystem);
+
+    await app.step(UPDATE_SCHEDULE);
+    expect(
+      app
+        .getArchetypeTable()
+        .find(Position)
+        .map(query => query.components[0].x)
+    ).toEqual([3, 3]);
+  });
+
+  it("should keep the defaults of fields which the prefab leaves out", () => {
+    const app = new App({
+      registry: createRegistry().register("transform", Transform),
+    }).addPrefab("tank", { components: { transform: { x: 5 } } });
+
+    const tank = app.spawnPrefab("tank", { transform: { rotation: 1 } });
+
+    expect(app.getArchetypeTable().get(tank, Transform)).toEqual(
+      new Transform({ x: 5, rotation: 1 })
+    );
+  });
+
+  it("should reject invalid prefabs", () => {
+    const prefabs = new Prefabs(createRegistry())
+      .add("a", { prefab: "b" })
+      .add("b", { prefab: "a" })
+      .add("broken", { components: { health: 10 } });
+    const commands = new Commands(() => 0);
+
+    expect(() => prefabs.add("a", {})).toThrow("Prefab 'a' already exists");
+    expect(() => prefabs.spawn(commands, "missing")).toThrow(
+      "Prefab 'missing' does not exist"
+    );
+    expect(() => prefabs.spawn(commands, "a")).toThrow(
+      "Prefab 'a' is based on itself: a -> b -> a"
+    );
+    expect(() => prefabs.spawn(commands, "broken")).toThrow(
+      "Component name 'health' is not registered"
+    );
+  });
+});
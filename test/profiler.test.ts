@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import App, { CachedQuery, Hook, Schedule, System, type Entity } from "../mod";
+import { Position } from "../core/components/mod";
+import { ProfilerHook, type TraceEvent } from "../core/hooks/mod";
+
+let now = 0;
+
+class FrameSchedule extends Schedule {
+  constructor(frames: number) {
+    super("frames", 0, () => frames-- > 0);
+  }
+}
+
+class SlowSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, components: [Position]): void {
+    now += components[0].x;
+  }
+}
+
+class DelayHook extends Hook {
+  constructor(private delay: number) {
+    super();
+  }
+
+  override afterSchedule(): void {
+    now += this.delay--;
+  }
+}
+
+async function runProfiled(frames: number): Promise<ProfilerHook> {
+  now = 0;
+  const profiler = new ProfilerHook({ windowSize: 3, clock: () => now });
+  const schedule = new FrameSchedule(frames);
+  const app = new App()
+    .addEntity(1, new Position(1, 0))
+    .addEntity(2, new Position(2, 0))
+    .addSchedule(schedule)
+    .addSystem(schedule, SlowSystem)
+    .addHook(profiler);
+
+  // Every frame spends one millisecond less outside of its schedule than the previous one.
+  app.addHook(new DelayHook(frames));
+
+  await app.run();
+  return profiler;
+}
+
+describe("ProfilerHook", () => {
+  it("should compute statistics over a rolling window", async () => {
+    const profiler = await runProfiled(4);
+
+    expect(profiler.getSystemStats().get("SlowSystem")).toEqual({
+      count: 3,
+      min: 3,
+      avg: 3,
+      p95: 3,
+      max: 3,
+      last: 3,
+    });
+    expect(profiler.getScheduleStats().get("frames")).toEqual({
+      count: 3,
+      min: 3,
+      avg: 3,
+      p95: 3,
+      max: 3,
+      last: 3,
+    });
+    expect(profiler.getFrameStats()).toEqual({
+      count: 3,
+      min: 4,
+      avg: 5,
+      p95: 6,
+      max: 6,
+      last: 4,
+    });
+    expect(profiler.getEntityCounts()).toEqual(new Map([["SlowSystem", 2]]));
+  });
+
+  it("should export a Chrome trace", async () => {
+    const profiler = await runProfiled(1);
+    const trace = JSON.parse(profiler.exportTrace()) as {
+      traceEvents: TraceEvent[];
+    };
+
+    expect(trace.traceEvents).toEqual([
+      {
+        name: "SlowSystem",
+        cat: "system",
+        ph: "X",
+        ts: 0,
+        dur: 3000,
+        pid: 1,
+        tid: 1,
+        args: { entities: 2 },
+      },
+      {
+        name: "frames",
+        cat: "schedule",
+        ph: "X",
+        ts: 0,
+        dur: 3000,
+        pid: 1,
+        tid: 0,
+      },
+      {
+        name: "frame 0",
+        cat: "frame",
+        ph: "X",
+        ts: 0,
+        dur: 4000,
+        pid: 1,
+        tid: 0,
+      },
+    ]);
+
+    profiler.reset();
+    expect(profiler.getTraceEvents()).toEqual([]);
+    expect(profiler.getFrameStats()).toBeUndefined();
+  });
+});
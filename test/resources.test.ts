@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { Resources } from "../mod";
+
+class Score {
+  constructor(public value = 0) {}
+}
+
+let resources: Resources;
+
+beforeEach(() => {
+  resources = new Resources();
+});
+
+describe("Resources", () => {
+  it("should insert and get resources by their class", () => {
+    expect(resources.has(Score)).toBeFalse();
+    expect(resources.get(Score)).toBeUndefined();
+    expect(() => resources.getOrThrow(Score)).toThrow();
+
+    resources.insert(new Score(10));
+
+    expect(resources.has(Score)).toBeTrue();
+    expect(resources.get(Score)).toEqual(new Score(10));
+    expect(resources.getOrThrow(Score).value).toBe(10);
+  });
+
+  it("should replace a resource of the same class", () => {
+    resources.insert(new Score(10));
+    resources.insert(new Score(20));
+
+    expect(resources.getOrThrow(Score).value).toBe(20);
+  });
+
+  it("should remove resources", () => {
+    resources.insert(new Score(10));
+
+    expect(resources.remove(Score)).toEqual(new Score(10));
+    expect(resources.has(Score)).toBeFalse();
+    expect(resources.remove(Score)).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Resources,
+  System,
+  SystemSet,
+  and,
+  not,
+  or,
+  type Entity,
+} from "../mod";
+import { Position } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+import {
+  everyNTicks,
+  inState,
+  onStateEnter,
+  resourceExists,
+} from "../core/conditions/mod";
+import { State } from "../core/resources/mod";
+
+const log: string[] = [];
+
+abstract class LogSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, _components: [Position]): void {
+    log.push(this.constructor.name);
+  }
+}
+
+class AiSystem extends LogSystem {}
+class DebugSystem extends LogSystem {}
+
+class Paused {}
+
+class GameState extends State<"menu" | "playing"> {}
+
+async function runSteps(app: App, steps: number): Promise<string[]> {
+  log.length = 0;
+  for (let i = 0; i < steps; i++) {
+    await app.step(UPDATE_SCHEDULE);
+  }
+  return [...log];
+}
+
+describe("Run conditions", () => {
+  it("should skip systems whose condition is not met", async () => {
+    let debug = false;
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, AiSystem)
+      .addSystem(UPDATE_SCHEDULE, DebugSystem, { runIf: () => debug });
+
+    expect(await runSteps(app, 1)).toEqual(["AiSystem"]);
+
+    debug = true;
+    expect(await runSteps(app, 1)).toEqual(["AiSystem", "DebugSystem"]);
+  });
+
+  it("should combine conditions", () => {
+    const resources = new Resources();
+    const yes = () => true;
+    const no = () => false;
+
+    expect(and(yes, yes)(resources)).toBeTrue();
+    expect(and(yes, no)(resources)).toBeFalse();
+    expect(or(no, yes)(resources)).toBeTrue();
+    expect(or(no, no)(resources)).toBeFalse();
+    expect(not(no)(resources)).toBeTrue();
+  });
+
+  it("should pause systems while a resource exists", async () => {
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, AiSystem, {
+        runIf: not(resourceExists(Paused)),
+      });
+
+    expect(await runSteps(app, 1)).toEqual(["AiSystem"]);
+
+    app.insertResource(new Paused());
+    expect(await runSteps(app, 1)).toEqual([]);
+  });
+
+  it("should throttle systems to every n ticks", async () => {
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, AiSystem, { runIf: everyNTicks(3) });
+
+    expect(await runSteps(app, 7)).toEqual([
+      "AiSystem",
+      "AiSystem",
+      "AiSystem",
+    ]);
+    expect(() => everyNTicks(0)).toThrow("Invalid number of ticks: 0");
+  });
+
+  it("should run systems in a state and when entering it", async () => {
+    const state = new GameState("menu");
+    const app = new App()
+      .insertResource(state)
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, AiSystem, {
+        runIf: inState(GameState, "playing"),
+      })
+      .addSystem(UPDATE_SCHEDULE, DebugSystem, {
+        runIf: onStateEnter(GameState, "playing"),
+      });
+
+    expect(await runSteps(app, 2)).toEqual([]);
+
+    state.set("playing");
+    expect(await runSteps(app, 2)).toEqual([
+      "AiSystem",
+      "DebugSystem",
+      "AiSystem",
+    ]);
+
+    state.set("menu");
+    expect(await runSteps(app, 1)).toEqual([]);
+
+    state.set("playing");
+    expect(await runSteps(app, 1)).toEqual(["AiSystem", "DebugSystem"]);
+  });
+
+  it("should check the conditions of a set once per step", async () => {
+    const AI = new SystemSet("ai");
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, AiSystem, { sets: [AI] })
+      .addSystem(UPDATE_SCHEDULE, DebugSystem, { sets: [AI] })
+      .configureSet(AI, { runIf: everyNTicks(2) });
+
+    expect(await runSteps(app, 3)).toEqual([
+      "AiSystem",
+      "DebugSystem",
+      "AiSystem",
+      "DebugSystem",
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "bun:test";
+import App, { CachedQuery, System, type Entity } from "../mod";
+import { Position } from "../core/components/mod";
+import { STARTUP_SCHEDULE, UPDATE_SCHEDULE } from "../core/constants/mod";
+import { ManualRunner, TimeoutRunner } from "../core/runners/mod";
+
+class CountFramesSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, components: [Position]): void {
+    components[0].x++;
+  }
+}
+
+function createApp(): App {
+  return new App()
+    .addEntity(1, new Position(0, 0))
+    .addSystem(UPDATE_SCHEDULE, CountFramesSystem);
+}
+
+function getFrames(app: App): number {
+  return app.getArchetypeTable().get(1, Position)?.x ?? 0;
+}
+
+describe("Runners", () => {
+  it("should complete when there are no more schedules to run", async () => {
+    const app = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSystem(STARTUP_SCHEDULE, CountFramesSystem);
+
+    expect(await app.run()).toBe("completed");
+    expect(getFrames(app)).toBe(1);
+    expect(app.isRunning()).toBe(false);
+  });
+
+  it("should run the startup schedule once for every run of every app", async () => {
+    const first = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSystem(STARTUP_SCHEDULE, CountFramesSystem);
+    const second = new App()
+      .addEntity(1, new Position(0, 0))
+      .addSystem(STARTUP_SCHEDULE, CountFramesSystem);
+
+    await first.run();
+    await second.run();
+    await first.run();
+
+    expect(getFrames(first)).toBe(2);
+    expect(getFrames(second)).toBe(1);
+  });
+
+  it("should run frames manually", async () => {
+    const app = createApp();
+    const runner = new ManualRunner();
+    const running = app.run({ runner });
+
+    expect(app.isRunning()).toBe(true);
+    expect(getFrames(app)).toBe(0);
+
+    await runner.advance();
+    expect(getFrames(app)).toBe(1);
+
+    await runner.advance(3);
+    expect(getFrames(app)).toBe(4);
+
+    app.stop();
+    expect(await running).toBe("stopped");
+    expect(getFrames(app)).toBe(4);
+    expect(app.isRunning()).toBe(false);
+  });
+
+  it("should stop when the signal is aborted", async () => {
+    const app = createApp();
+    const runner = new ManualRunner();
+    const controller = new AbortController();
+    const running = app.run({ runner, signal: controller.signal });
+
+    await runner.advance(2);
+    controller.abort();
+
+    expect(await running).toBe("aborted");
+    expect(getFrames(app)).toBe(2);
+  });
+
+  it("should not keep abort listeners of released frames", async () => {
+    const runner = new ManualRunner();
+    const signal = new AbortController().signal;
+    let listeners = 0;
+    const add = signal.addEventListener.bind(signal);
+    const remove = signal.removeEventListener.bind(signal);
+    signal.addEventListener = (...args: Parameters<typeof add>) => {
+      listeners++;
+      add(...args);
+    };
+    signal.removeEventListener = (...args: Parameters<typeof remove>) => {
+      listeners--;
+      remove(...args);
+    };
+
+    let waiting = runner.wait(signal);
+
+    for (let i = 0; i < 100; i++) {
+      const advancing = runner.advance();
+      await waiting;
+      waiting = runner.wait(signal);
+      await advancing;
+    }
+
+    // Only the frame which is still waiting listens for the abort.
+    expect(listeners).toBe(1);
+  });
+
+  it("should not run frames if the signal is already aborted", async () => {
+    const app = createApp();
+
+    expect(await app.run({ signal: AbortSignal.abort() })).toBe("aborted");
+    expect(getFrames(app)).toBe(0);
+  });
+
+  it("should not run twice at the same time", async () => {
+    const app = createApp();
+    const running = app.run({ runner: new ManualRunner() });
+
+    await expect(app.run()).rejects.toThrow("App is already running");
+
+    app.stop();
+    expect(await running).toBe("stopped");
+  });
+
+  it("should yield to the event loop between frames", async () => {
+    const app = createApp();
+    setTimeout(() => app.stop(), 10);
+
+    expect(await app.run()).toBe("stopped");
+    expect(getFrames(app)).toBeGreaterThan(0);
+  });
+
+  it("should wait for the rest of the frame with a target rate", async () => {
+    let now = 0;
+    const runner = new TimeoutRunner(50, () => now);
+    const controller = new AbortController();
+
+    await runner.wait(controller.signal);
+    now += 5;
+
+    const start = performance.now();
+    await runner.wait(controller.signal);
+    // 20ms per frame, of which 5ms have passed.
+    expect(performance.now() - start).toBeGreaterThanOrEqual(14);
+
+    now += 100;
+    const late = performance.now();
+    await runner.wait(controller.signal);
+    expect(performance.now() - late).toBeLessThan(14);
+  });
+
+  it("should stop waiting when the app is stopped", async () => {
+    const app = createApp();
+    const running = app.run({ runner: new TimeoutRunner(1) });
+
+    setTimeout(() => app.stop(), 10);
+
+    expect(await running).toBe("stopped");
+    expect(getFrames(app)).toBe(1);
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  Resources,
+  Schedule,
+  System,
+  type Entity,
+} from "../mod";
+import { Position } from "../core/components/mod";
+import {
+  FIXED_UPDATE_SCHEDULE,
+  POST_UPDATE_SCHEDULE,
+  PRE_UPDATE_SCHEDULE,
+  SHUTDOWN_SCHEDULE,
+  STARTUP_SCHEDULE,
+  UPDATE_SCHEDULE,
+} from "../core/constants/mod";
+import { FixedTime, Time } from "../core/resources/mod";
+import { ManualRunner } from "../core/runners/mod";
+import { FixedUpdateSchedule, UpdateSchedule } from "../core/schedules/mod";
+
+class FramesSchedule extends Schedule {
+  constructor(public frames: number) {
+    super("frames", 1, () => this.frames-- > 0);
+  }
+}
+
+class OnDemandSchedule extends Schedule {
+  constructor() {
+    super("onDemand", 0, () => true, "onDemand");
+  }
+}
+
+class PreparedSchedule extends Schedule {
+  public runs = 0;
+
+  constructor() {
+    super("prepared", 3, () => true);
+  }
+
+  override prepare(): void {
+    this.runs++;
+  }
+}
+
+const log: string[] = [];
+
+function createLogSystem(
+  label: string,
+  onUpdate?: (system: System<[Position]>) => void
+) {
+  return class extends System<[Position]> {
+    private query = this.archetypeTable.query(Position);
+
+    override select(): CachedQuery<[Position]> {
+      return this.query;
+    }
+
+    override update(_entity: Entity, _components: [Position]): void {
+      log.push(label);
+      onUpdate?.(this);
+    }
+  };
+}
+
+class CountUpdatesSystem extends System<[Position]> {
+  public static runs = 0;
+
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, _components: [Position]): void {
+    CountUpdatesSystem.runs++;
+  }
+}
+
+class CountFixedUpdatesSystem extends System<[Position]> {
+  public static runs = 0;
+
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, _components: [Position]): void {
+    CountFixedUpdatesSystem.runs++;
+  }
+}
+
+describe("Update schedule", () => {
+  it("should not count the time before the app runs", () => {
+    let now = 0;
+    const resources = new Resources();
+    const schedule = new UpdateSchedule();
+    resources.insert(new Time(() => now));
+
+    now = 1000;
+    schedule.prepare(resources);
+    expect(resources.get(Time)?.delta).toBe(1);
+
+    now = 60000;
+    schedule.reset(resources);
+    now = 60500;
+    schedule.prepare(resources);
+    expect(resources.get(Time)?.delta).toBe(0.5);
+    expect(resources.get(Time)?.elapsed).toBe(1.5);
+  });
+});
+
+describe("Fixed update schedule", () => {
+  it("should run together with the update schedule", () => {
+    expect(FIXED_UPDATE_SCHEDULE.order).toBe(UPDATE_SCHEDULE.order);
+    expect(FIXED_UPDATE_SCHEDULE.timestep).toBe(1 / 60);
+  });
+
+  it("should run once for every whole timestep of real time", () => {
+    let now = 0;
+    const resources = new Resources();
+    const schedule = new FixedUpdateSchedule({
+      timestep: 0.25,
+      clock: () => (now += 375),
+    });
+
+    // The first call only starts the clock.
+    expect(schedule.getStepCount(resources)).toBe(0);
+    expect(schedule.getStepCount(resources)).toBe(1);
+    expect(resources.get(FixedTime)?.alpha).toBe(0.5);
+    expect(schedule.getStepCount(resources)).toBe(2);
+    expect(resources.get(FixedTime)?.alpha).toBe(0);
+  });
+
+  it("should drop time beyond the maximum number of steps", () => {
+    let now = 0;
+    const resources = new Resources();
+    const schedule = new FixedUpdateSchedule({
+      timestep: 0.25,
+      maxSteps: 2,
+      clock: () => (now += 1100),
+    });
+
+    schedule.getStepCount(resources);
+    expect(schedule.getStepCount(resources)).toBe(2);
+    expect(resources.get(FixedTime)?.alpha).toBeCloseTo(0.4);
+    expect(schedule.getStepCount(resources)).toBe(2);
+    expect(resources.get(FixedTime)?.alpha).toBeCloseTo(0.8);
+  });
+
+  it("should keep the accumulator of every app apart", () => {
+    let now = 0;
+    const first = new Resources();
+    const second = new Resources();
+    const schedule = new FixedUpdateSchedule({
+      timestep: 0.25,
+      clock: () => now,
+    });
+
+    schedule.getStepCount(first);
+    now += 1000;
+    expect(schedule.getStepCount(first)).toBe(4);
+
+    // The second app only starts its clock now, so it doesn't catch up.
+    expect(schedule.getStepCount(second)).toBe(0);
+    now += 250;
+    expect(schedule.getStepCount(second)).toBe(1);
+    expect(schedule.getStepCount(first)).toBe(1);
+  });
+
+  it("should not catch up with the time between runs", () => {
+    let now = 0;
+    const resources = new Resources();
+    const schedule = new FixedUpdateSchedule({
+      timestep: 0.25,
+      clock: () => now,
+    });
+
+    schedule.getStepCount(resources);
+    now += 375;
+    expect(schedule.getStepCount(resources)).toBe(1);
+
+    now += 10000;
+    schedule.reset(resources);
+    expect(schedule.getStepCount(resources)).toBe(0);
+    expect(resources.get(FixedTime)?.alpha).toBe(0);
+    now += 250;
+    expect(schedule.getStepCount(resources)).toBe(1);
+  });
+
+  it("should run alongside a variable-rate schedule", async () => {
+    let now = 0;
+    const frames = new FramesSchedule(4);
+    const fixed = new FixedUpdateSchedule({
+      timestep: 0.25,
+      clock: () => (now += 250),
+      shouldRun: () => frames.frames >= 0,
+    });
+
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(frames, CountUpdatesSystem)
+      .addSystem(fixed, CountFixedUpdatesSystem);
+
+    await app.run();
+
+    expect(app.getCurrentSchedule()).toBeNull();
+    expect(CountUpdatesSystem.runs).toBe(4);
+    expect(CountFixedUpdatesSystem.runs).toBe(3);
+
+    const fixedTime = app.getResource(FixedTime);
+    expect(fixedTime?.step).toBe(3);
+    expect(fixedTime?.delta).toBe(0.25);
+    expect(fixedTime?.elapsed).toBe(0.75);
+    expect(fixedTime?.alpha).toBe(0);
+  });
+});
+
+describe("Schedule pipeline", () => {
+  const ON_DEMAND_SCHEDULE = new OnDemandSchedule();
+  const PREPARED_SCHEDULE = new PreparedSchedule();
+  let app: App;
+  let runner: ManualRunner;
+  let running: Promise<unknown>;
+  let requestOnDemand = false;
+
+  it("should register schedules without systems", () => {
+    app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(SHUTDOWN_SCHEDULE, createLogSystem("shutdown"))
+      .addSystem(POST_UPDATE_SCHEDULE, createLogSystem("postUpdate"))
+      .addSystem(
+        UPDATE_SCHEDULE,
+        createLogSystem("update", system => {
+          if (requestOnDemand) {
+            requestOnDemand = false;
+            system.commands.runSchedule(ON_DEMAND_SCHEDULE);
+          }
+        })
+      )
+      .addSystem(PRE_UPDATE_SCHEDULE, createLogSystem("preUpdate"))
+      .addSystem(STARTUP_SCHEDULE, createLogSystem("startup"))
+      .addSystem(ON_DEMAND_SCHEDULE, createLogSystem("onDemand"))
+      .addSchedule(PREPARED_SCHEDULE)
+      .addSchedule(UPDATE_SCHEDULE);
+
+    expect(app.getSchedules("main")).toEqual([
+      PRE_UPDATE_SCHEDULE,
+      UPDATE_SCHEDULE,
+      POST_UPDATE_SCHEDULE,
+      PREPARED_SCHEDULE,
+    ]);
+    expect(app.getSchedules("startup")).toEqual([STARTUP_SCHEDULE]);
+    expect(app.getSchedules("shutdown")).toEqual([SHUTDOWN_SCHEDULE]);
+    expect(app.getSchedules("onDemand")).toEqual([ON_DEMAND_SCHEDULE]);
+  });
+
+  it("should run the startup schedules once before the first frame", async () => {
+    runner = new ManualRunner();
+    running = app.run({ runner });
+
+    await runner.advance();
+    expect(log).toEqual(["startup", "preUpdate", "update", "postUpdate"]);
+    expect(PREPARED_SCHEDULE.runs).toBe(1);
+  });
+
+  it("should repeat the main schedules every frame", async () => {
+    log.length = 0;
+    await runner.advance();
+    expect(log).toEqual(["preUpdate", "update", "postUpdate"]);
+    expect(PREPARED_SCHEDULE.runs).toBe(2);
+  });
+
+  it("should run schedules on demand", async () => {
+    log.length = 0;
+    requestOnDemand = true;
+    await runner.advance();
+    expect(log).toEqual(["preUpdate", "update", "onDemand", "postUpdate"]);
+  });
+
+  it("should run the shutdown schedules once when the app stops", async () => {
+    log.length = 0;
+    app.stop();
+
+    expect(await running).toBe("stopped");
+    expect(log).toEqual(["shutdown"]);
+    expect(app.getCurrentSchedule()).toBeNull();
+  });
+
+  it("should advance through the startup schedules and loop the main schedules", () => {
+    const schedules: (Schedule | null)[] = [];
+    for (let i = 0; i < 6; i++) {
+      app.advanceSchedule();
+      schedules.push(app.getCurrentSchedule());
+    }
+
+    expect(schedules).toEqual([
+      STARTUP_SCHEDULE,
+      PRE_UPDATE_SCHEDULE,
+      UPDATE_SCHEDULE,
+      POST_UPDATE_SCHEDULE,
+      PREPARED_SCHEDULE,
+      PRE_UPDATE_SCHEDULE,
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ArchetypeTable,
+  Component,
+  ComponentRegistry,
+  Parent,
+  Relation,
+  deserialize,
+  serialize,
+  type Entity,
+} from "../mod";
+import { Position, Velocity } from "../core/components/mod";
+
+class Targets extends Relation {
+  constructor(target: Entity) {
+    super("targets", target);
+  }
+}
+
+class Inventory extends Component {
+  constructor(public items: Set<string>) {
+    super("inventory");
+  }
+}
+
+class Stats extends Component {
+  constructor(
+    public values: (number | null | undefined)[] = [],
+    public extra: Record<string, unknown> = {},
+    public note?: string
+  ) {
+    super("stats");
+  }
+}
+
+class Health extends Component {
+  constructor(public value: number) {
+    super("health");
+    if (!Number.isFinite(value)) {
+      throw new Error("Health must be a finite number");
+    }
+  }
+}
+
+function createRegistry(): ComponentRegistry {
+  return new ComponentRegistry()
+    .register("position", Position)
+    .register("velocity", Velocity)
+    .register("targets", Targets)
+    .register("inventory", Inventory, {
+      serialize: inventory => [...inventory.items],
+      deserialize: data => new Inventory(new Set(data as string[])),
+    });
+}
+
+function createTable(): ArchetypeTable {
+  const table = new ArchetypeTable();
+  table.addAll(1, [new Position(1.5, -2), new Velocity(0, 1)]);
+  table.addAll(2, [
+    new Position(3, 4),
+    new Parent(1),
+    new Inventory(new Set(["sword", "shield"])),
+  ]);
+  table.addAll(3, [new Targets(2)]);
+  return table;
+}
+
+describe("Snapshots", () => {
+  for (const format of ["json", "binary"] as const) {
+    it(`should save and load entities as ${format}`, () => {
+      const registry = createRegistry();
+      const data =
+        format === "json"
+          ? serialize(createTable(), registry)
+          : serialize(createTable(), registry, "binary");
+
+      const table = new ArchetypeTable();
+      table.add(table.allocate(), new Position(0, 0));
+      table.add(table.allocate(), new Position(0, 0));
+      const ids = deserialize(table, data, registry);
+
+      expect([...ids.keys()]).toEqual([1, 2, 3]);
+      const [a, b, c] = [ids.get(1) ?? -1, ids.get(2) ?? -1, ids.get(3) ?? -1];
+      expect(new Set([a, b, c]).size).toBe(3);
+
+      expect(table.get(a, Position)).toEqual(new Position(1.5, -2));
+      expect(table.get(a, Velocity)).toBeInstanceOf(Velocity);
+      expect(table.get(b, Inventory)?.items).toEqual(
+        new Set(["sword", "shield"])
+      );
+      expect(table.getParent(b)).toBe(a);
+      expect(table.getChildren(a)).toEqual([b]);
+      expect(table.get(c, Targets)?.target).toBe(b);
+      expect(table.getEntities()).toHaveLength(5);
+    });
+  }
+
+  it("should store binary snapshots compactly", () => {
+    const table = new ArchetypeTable();
+    for (let i = 0; i < 100; i++) {
+      table.addAll(i, [new Position(i, i), new Velocity(1, 1)]);
+    }
+    const registry = createRegistry();
+
+    expect(serialize(table, registry, "binary").length).toBeLessThan(
+      serialize(table, registry).length / 3
+    );
+  });
+
+  it("should reject unregistered components and invalid snapshots", () => {
+    const registry = new ComponentRegistry();
+    const table = new ArchetypeTable();
+    table.add(1, new Position(0, 0));
+
+    expect(() => serialize(table, registry)).toThrow(
+      "Component type 'Position' is not registered"
+    );
+    expect(() =>
+      deserialize(
+        new ArchetypeTable(),
+        serialize(table, createRegistry()),
+        registry
+      )
+    ).toThrow("Component name 'position' is not registered");
+    expect(() => registry.register("parent", Position)).toThrow(
+      "Component name 'parent' is already registered"
+    );
+    expect(() =>
+      deserialize(new ArchetypeTable(), new Uint8Array([1, 2, 3]), registry)
+    ).toThrow("Invalid binary snapshot");
+    expect(() =>
+      deserialize(
+        new ArchetypeTable(),
+        JSON.stringify({ version: 2, entities: [] }),
+        registry
+      )
+    ).toThrow("Unsupported snapshot version: 2");
+  });
+
+  it("should load the same values from both formats", () => {
+    const registry = new ComponentRegistry().register("stats", Stats);
+    const table = new ArchetypeTable();
+    table.add(
+      1,
+      new Stats([1, undefined, -0.5], {
+        nested: { list: [true, null], skipped: undefined },
+        long: "x".repeat(1_000_000),
+      })
+    );
+
+    const fromJson = new ArchetypeTable();
+    const fromBinary = new ArchetypeTable();
+    deserialize(fromJson, serialize(table, registry), registry);
+    deserialize(fromBinary, serialize(table, registry, "binary"), registry);
+
+    const loaded = fromJson.get(0, Stats);
+    expect(fromBinary.getAll(0)).toEqual(fromJson.getAll(0) ?? []);
+    expect(loaded?.values).toEqual([1, null, -0.5]);
+    expect(loaded?.extra).toEqual({
+      nested: { list: [true, null] },
+      long: "x".repeat(1_000_000),
+    });
+    expect(loaded?.note).toBeUndefined();
+  });
+
+  it("should reject values which snapshots can't store", () => {
+    const registry = new ComponentRegistry().register("stats", Stats);
+
+    for (const [extra, message] of [
+      [{ tags: new Set(["a"]) }, "'stats.extra.tags' is an instance of Set"],
+      [
+        { position: new Position(0, 0) },
+        "'stats.extra.position' is an instance of Position",
+      ],
+      [{ speed: Infinity }, "'stats.extra.speed' is Infinity"],
+      [{ id: 1n }, "'stats.extra.id' is a bigint"],
+    ] as const) {
+      const table = new ArchetypeTable();
+      table.add(1, new Stats([], extra));
+
+      expect(() => serialize(table, registry)).toThrow(message);
+      expect(() => serialize(table, registry, "binary")).toThrow(message);
+    }
+  });
+
+  it("should create components with their constructor called without arguments", () => {
+    const registry = createRegistry().register("health", Health);
+    const table = new ArchetypeTable();
+    table.addAll(1, [new Position(1, 2), new Health(10)]);
+
+    // Health validates its argument, so it needs a custom serializer.
+    const loaded = new ArchetypeTable();
+    expect(() =>
+      deserialize(loaded, serialize(table, registry), registry)
+    ).toThrow(
+      "Component type 'Health' can't be created without arguments, register it with a custom serializer"
+    );
+    // Position only assigns its arguments, which are all in the data.
+    expect(
+      deserialize(
+        loaded,
+        JSON.stringify({
+          version: 1,
+          entities: [{ entity: 1, components: { position: { x: 1, y: 2 } } }],
+        }),
+        registry
+      ).size
+    ).toBe(1);
+    expect(loaded.find(Position)[0]?.components).toEqual([new Position(1, 2)]);
+  });
+
+  it("should leave the archetype table as it was when loading fails", () => {
+    const registry = createRegistry();
+    const table = new ArchetypeTable();
+    const existing = table.allocate();
+    table.add(existing, new Position(0, 0));
+
+    // The second entity refers to an entity which is not part of the snapshot.
+    expect(() =>
+      deserialize(
+        table,
+        JSON.stringify({
+          version: 1,
+          entities: [
+            { entity: 1, components: { position: { x: 1, y: 1 } } },
+            { entity: 2, components: { targets: { target: 5 } } },
+          ],
+        }),
+        registry
+      )
+    ).toThrow("Entity 5 is not part of the snapshot");
+    expect(table.getEntities()).toEqual([existing]);
+    expect(table.isAlive(1)).toBeFalse();
+    expect(table.isAlive(2)).toBeFalse();
+
+    // The entities form a cycle, which fails after the first one was created.
+    expect(() =>
+      deserialize(
+        table,
+        JSON.stringify({
+          version: 1,
+          entities: [
+            { entity: 1, components: { parent: { target: 2 } } },
+            { entity: 2, components: { parent: { target: 1 } } },
+          ],
+        }),
+        registry
+      )
+    ).toThrow("since that would create a cycle");
+    expect(table.getEntities()).toEqual([existing]);
+    expect(table.find(Position)).toHaveLength(1);
+
+    // Loading a valid snapshot afterwards still works.
+    const ids = deserialize(
+      table,
+      serialize(createTable(), registry, "binary"),
+      registry
+    );
+    expect(table.getEntities()).toEqual([existing, ...ids.values()]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import App, {
+  CachedQuery,
+  System,
+  SystemSet,
+  type Entity,
+  type QueryComponents,
+} from "../mod";
+import { Position } from "../core/components/mod";
+import { UPDATE_SCHEDULE } from "../core/constants/mod";
+
+const log: string[] = [];
+
+abstract class LogSystem extends System<[Position]> {
+  private query = this.archetypeTable.query(Position);
+
+  override select(): CachedQuery<[Position]> {
+    return this.query;
+  }
+
+  override update(_entity: Entity, _components: [Position]): void {
+    log.push(this.constructor.name);
+  }
+}
+
+class InputSystem extends LogSystem {}
+class MovementSystem extends LogSystem {}
+class CollisionSystem extends LogSystem {}
+class RenderSystem extends LogSystem {}
+
+function getNames(systems: System<QueryComponents>[]): string[] {
+  return systems.map(system => system.constructor.name);
+}
+
+describe("System ordering", () => {
+  it("should run systems in the order in which they were added", () => {
+    const app = new App()
+      .addSystem(UPDATE_SCHEDULE, MovementSystem)
+      .addSystem(UPDATE_SCHEDULE, CollisionSystem);
+
+    expect(getNames(app.getSystemOrder(UPDATE_SCHEDULE))).toEqual([
+      "MovementSystem",
+      "CollisionSystem",
+    ]);
+  });
+
+  it("should run systems before and after other systems", async () => {
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, CollisionSystem, { after: [MovementSystem] })
+      .addSystem(UPDATE_SCHEDULE, RenderSystem)
+      .addSystem(UPDATE_SCHEDULE, MovementSystem)
+      .addSystem(UPDATE_SCHEDULE, InputSystem, { before: [MovementSystem] });
+
+    expect(getNames(app.getSystemOrder(UPDATE_SCHEDULE))).toEqual([
+      "RenderSystem",
+      "InputSystem",
+      "MovementSystem",
+      "CollisionSystem",
+    ]);
+
+    log.length = 0;
+    await app.step(UPDATE_SCHEDULE);
+    expect(log).toEqual([
+      "RenderSystem",
+      "InputSystem",
+      "MovementSystem",
+      "CollisionSystem",
+    ]);
+  });
+
+  it("should order sets as a group", () => {
+    const PHYSICS = new SystemSet("physics");
+    const app = new App()
+      .addSystem(UPDATE_SCHEDULE, RenderSystem, { after: [PHYSICS] })
+      .addSystem(UPDATE_SCHEDULE, CollisionSystem, {
+        sets: [PHYSICS],
+        after: [MovementSystem],
+      })
+      .addSystem(UPDATE_SCHEDULE, MovementSystem, { sets: [PHYSICS] })
+      .addSystem(UPDATE_SCHEDULE, InputSystem)
+      .configureSet(PHYSICS, { after: [InputSystem] });
+
+    expect(getNames(app.getSystemOrder(UPDATE_SCHEDULE))).toEqual([
+      "InputSystem",
+      "MovementSystem",
+      "CollisionSystem",
+      "RenderSystem",
+    ]);
+  });
+
+  it("should ignore labels which don't refer to any system in the schedule", () => {
+    const app = new App()
+      .addSystem(UPDATE_SCHEDULE, MovementSystem, {
+        after: [InputSystem, new SystemSet("missing")],
+      })
+      .addSystem(UPDATE_SCHEDULE, CollisionSystem);
+
+    expect(getNames(app.getSystemOrder(UPDATE_SCHEDULE))).toEqual([
+      "MovementSystem",
+      "CollisionSystem",
+    ]);
+  });
+
+  it("should report cycles by the names of the systems", async () => {
+    const PHYSICS = new SystemSet("physics");
+    const app = new App()
+      .addEntity(null, new Position(0, 0))
+      .addSystem(UPDATE_SCHEDULE, RenderSystem)
+      .addSystem(UPDATE_SCHEDULE, MovementSystem, { sets: [PHYSICS] })
+      .addSystem(UPDATE_SCHEDULE, CollisionSystem, { after: [MovementSystem] })
+      .addSystem(UPDATE_SCHEDULE, InputSystem, { after: [CollisionSystem] })
+      .configureSet(PHYSICS, { after: [InputSystem] });
+
+    const message =
+      "Systems in schedule 'update' have cyclic ordering constraints: MovementSystem -> CollisionSystem -> InputSystem -> MovementSystem";
+    expect(() => app.getSystemOrder(UPDATE_SCHEDULE)).toThrow(message);
+    await expect(app.step(UPDATE_SCHEDULE)).rejects.toThrow(message);
+  });
+});
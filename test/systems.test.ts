@@ -1,7 +1,12 @@
 import { beforeAll, describe, expect, it } from "bun:test";
 import App, { ArchetypeTable } from "../mod";
 import { Position, Velocity } from "../core/components/mod";
-import { STARTUP_SCHEDULE, UPDATE_SCHEDULE } from "../core/constants/mod";
+import {
+  FIXED_UPDATE_SCHEDULE,
+  STARTUP_SCHEDULE,
+  UPDATE_SCHEDULE,
+} from "../core/constants/mod";
+import { Time } from "../core/resources/mod";
 import { MovementSystem } from "../core/systems/mod";
 import IncreaseXByOneSystem from "./systems/increaseXByOne";
 import NoopSystem from "./systems/noop";
@@ -10,7 +15,11 @@ describe("Systems (and schedules)", () => {
   let app: App;
   let table: Readonly<ArchetypeTable>;
   beforeAll(() => {
+    // A clock which advances by one second whenever it is read, so that entities move by exactly their velocity on every update.
+    let now = 0;
+
     app = new App()
+      .insertResource(new Time(() => (now += 1000)))
       .addEntity(10, new Position(0, 0), new Velocity(1, 1))
       .addEntity(15, new Position(5, 5), new Velocity(-1, -1))
       .addSystem(STARTUP_SCHEDULE, IncreaseXByOneSystem)
@@ -80,3 +89,15 @@ describe("Systems (and schedules)", () => {
     expect(NoopSystem.noopSystemRan).toBeFalse();
   });
 });
+
+describe("Movement system", () => {
+  it("should require the time of the update schedule", async () => {
+    const app = new App()
+      .addEntity(10, new Position(0, 0), new Velocity(1, 1))
+      .addSystem(FIXED_UPDATE_SCHEDULE, MovementSystem);
+
+    await expect(app.step(FIXED_UPDATE_SCHEDULE)).rejects.toThrow(
+      "System 'MovementSystem' failed in schedule 'fixedUpdate': Required resource 'Time' does not exist"
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { CachedQuery, System, type Entity } from "../../mod";
+import { Position, Velocity } from "../../core/components/mod";
+
+export default class StopAtTwoSystem extends System<[Position, Velocity]> {
+  public static entitiesDuringUpdate: number[] = [];
+
+  private query = this.archetypeTable.query(Position, Velocity);
+
+  override select(): CachedQuery<[Position, Velocity]> {
+    return this.query;
+  }
+
+  override update(entity: Entity, components: [Position, Velocity]): void {
+    if (components[0].x >= 2) {
+      this.commands.remove(entity, Velocity);
+    }
+
+    StopAtTwoSystem.entitiesDuringUpdate.push(this.query.size);
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import App, { Changed, Parent, type Entity } from "../mod";
+import { GlobalTransform, Transform } from "../core/components/mod";
+import { TransformPropagationSystem } from "../core/systems/mod";
+import { POST_UPDATE_SCHEDULE } from "../core/constants/mod";
+
+function getGlobal(app: App, entity: Entity): GlobalTransform | undefined {
+  return app.getArchetypeTable().get(entity, GlobalTransform);
+}
+
+describe("Transforms", () => {
+  it("should compose transforms", () => {
+    const parent = new GlobalTransform().compute(
+      undefined,
+      new Transform({ x: 10, y: 5, z: 1, rotation: Math.PI / 2, scaleX: 2 })
+    );
+    const child = new GlobalTransform().compute(
+      parent,
+      new Transform({ x: 1, y: 2, z: 1, rotation: 1, scaleY: 3 })
+    );
+
+    expect(child.x).toBeCloseTo(8);
+    expect(child.y).toBeCloseTo(7);
+    expect(child.z).toBe(2);
+    expect(child.rotation).toBeCloseTo(Math.PI / 2 + 1);
+    expect(child.scaleX).toBe(2);
+    expect(child.scaleY).toBe(3);
+    expect(child.scaleZ).toBe(1);
+  });
+
+  it("should propagate transforms down the hierarchy", async () => {
+    const app = new App()
+      .addEntity(1, new Transform({ x: 10 }))
+      .addEntity(2, new Transform({ x: 1 }), new Parent(1))
+      .addEntity(3, new Transform({ y: 1 }), new Parent(2))
+      .addSystem(POST_UPDATE_SCHEDULE, TransformPropagationSystem);
+    const table = app.getArchetypeTable();
+
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 2)?.x).toBe(11);
+    expect(getGlobal(app, 3)?.x).toBe(11);
+    expect(getGlobal(app, 3)?.y).toBe(1);
+
+    const transform = table.get(1, Transform);
+    if (transform) {
+      transform.x = 20;
+    }
+
+    // Unmarked changes are not propagated.
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 3)?.x).toBe(11);
+
+    table.markChanged(1, Transform);
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 1)?.x).toBe(20);
+    expect(getGlobal(app, 3)?.x).toBe(21);
+  });
+
+  it("should only recompute changed subtrees", async () => {
+    const app = new App()
+      .addEntity(1, new Transform({ x: 10 }))
+      .addEntity(2, new Transform({ x: 1 }), new Parent(1))
+      .addEntity(3, new Transform({ x: 5 }))
+      .addSystem(POST_UPDATE_SCHEDULE, TransformPropagationSystem);
+    const table = app.getArchetypeTable();
+
+    await app.step(POST_UPDATE_SCHEDULE);
+    await app.step(POST_UPDATE_SCHEDULE);
+    const changed = table.query(GlobalTransform, Changed(GlobalTransform));
+    changed.toArray();
+    table.advanceTick();
+
+    table.set(2, new Transform({ x: 2 }));
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 2)?.x).toBe(12);
+
+    expect(changed.toArray().map(query => query.entity)).toEqual([2]);
+  });
+
+  it("should recompute reparented entities", async () => {
+    const app = new App()
+      .addEntity(1, new Transform({ x: 10 }))
+      .addEntity(2, new Transform({ x: 20 }))
+      .addEntity(3, new Transform({ x: 1 }), new Parent(1))
+      .addSystem(POST_UPDATE_SCHEDULE, TransformPropagationSystem);
+    const table = app.getArchetypeTable();
+
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 3)?.x).toBe(11);
+
+    table.set(3, new Parent(2));
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 3)?.x).toBe(21);
+
+    table.remove(3, Parent);
+    await app.step(POST_UPDATE_SCHEDULE);
+    expect(getGlobal(app, 3)?.x).toBe(1);
+  });
+});